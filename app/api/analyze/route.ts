@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { syncAIDomains } from '@/common/domain-store';
+import '@/common/custom-components';
+import { cachedAnalyzeJSONWithAI } from '@/common/ai-cache';
+
+// POST /api/analyze - Match the data to a domain (or suggest a new one) with the server-side LLM
+export async function POST(request: NextRequest) {
+  let body: {
+    data: Record<string, unknown>;
+    apiKey?: string;
+    refresh?: boolean;
+    maxDomains?: number;  // Combine up to this many matched domains (default 1)
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const { data, apiKey, refresh, maxDomains } = body;
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return NextResponse.json(
+        { error: 'Request must include a data object' },
+        { status: 400 }
+      );
+    }
+
+    if (maxDomains !== undefined && !(Number.isInteger(maxDomains) && maxDomains >= 1)) {
+      return NextResponse.json(
+        { error: 'maxDomains must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    // Saved AI domains take part in local matching
+    await syncAIDomains();
+
+    // A key the user entered themselves overrides the server configuration.
+    // Data with the same shape is answered from the cache unless refresh is set.
+    const result = await cachedAnalyzeJSONWithAI(data, apiKey || undefined, { refresh, maxDomains });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Failed to analyze data:', error);
+    return NextResponse.json(
+      { error: 'Failed to analyze data' },
+      { status: 500 }
+    );
+  }
+}
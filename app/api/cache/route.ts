@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fingerprintData, invalidateCache } from '@/common/ai-cache';
+
+// DELETE /api/cache - Clear cached AI responses.
+// With a JSON body { data } only entries for data of the same shape are removed.
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.text();
+    const { data } = (body ? JSON.parse(body) : {}) as { data?: Record<string, unknown> };
+
+    const fingerprint = data ? fingerprintData(data) : undefined;
+    const removed = await invalidateCache(fingerprint);
+
+    return NextResponse.json({ success: true, removed, fingerprint });
+  } catch (error) {
+    console.error('Failed to clear cache:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear cache' },
+      { status: 500 }
+    );
+  }
+}
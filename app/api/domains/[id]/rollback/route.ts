@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rollbackAIDomain, domainErrorStatus, DomainStoreError } from '@/common/domain-store';
+
+// POST /api/domains/[id]/rollback - Restore { version } of a domain.
+// The restored content is saved as a new version, so history is never rewritten.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  let body: { version: number };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const version = body?.version;
+
+    if (!Number.isInteger(version)) {
+      return NextResponse.json(
+        { error: 'Request must include the version to restore' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, domain: await rollbackAIDomain(id, version) });
+  } catch (error) {
+    const status = domainErrorStatus(error);
+    if (status !== 500) {
+      // An old version may not pass today's validation - errors lists why
+      return NextResponse.json({ error: (error as DomainStoreError).message, errors: (error as DomainStoreError).errors }, { status });
+    }
+
+    console.error('Failed to roll back domain:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back domain' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DomainConfig } from '@/common/domains';
+import { getDomain, updateAIDomain, deleteAIDomain, domainErrorStatus, DomainStoreError } from '@/common/domain-store';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/domains/[id] - A saved AI domain or a system domain
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    return NextResponse.json({ domain: await getDomain(id) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load domain');
+  }
+}
+
+// PUT /api/domains/[id] - Replace a saved domain with { domain }. Bumps the version.
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await readBody(request);
+  if (!body) return invalidBodyResponse();
+
+  try {
+    return NextResponse.json({ success: true, domain: await updateAIDomain(id, body.domain, { replace: true }) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update domain');
+  }
+}
+
+// PATCH /api/domains/[id] - Change individual fields of a saved domain. Bumps the version.
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body = await readBody(request);
+  if (!body) return invalidBodyResponse();
+
+  try {
+    return NextResponse.json({ success: true, domain: await updateAIDomain(id, body.domain) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update domain');
+  }
+}
+
+// DELETE /api/domains/[id] - Delete a saved domain and its version history
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    return NextResponse.json({ success: true, domain: await deleteAIDomain(id) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete domain');
+  }
+}
+
+// Body of a PUT or PATCH, or null if it isn't valid JSON
+async function readBody(request: NextRequest): Promise<{ domain: Partial<DomainConfig> } | null> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+function invalidBodyResponse() {
+  return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+}
+
+// Store errors carry their own status (404, 403, 409, 400, 503); anything else is a 500
+function errorResponse(error: unknown, message: string) {
+  const status = domainErrorStatus(error);
+  if (status !== 500) {
+    return NextResponse.json({ error: (error as DomainStoreError).message, errors: (error as DomainStoreError).errors }, { status });
+  }
+
+  console.error(`${message}:`, error);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
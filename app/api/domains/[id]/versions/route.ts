@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listDomainVersions, domainErrorStatus } from '@/common/domain-store';
+
+// GET /api/domains/[id]/versions - Every saved version of a domain, oldest first
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    return NextResponse.json({ versions: await listDomainVersions(id) });
+  } catch (error) {
+    const status = domainErrorStatus(error);
+    if (status === 500) console.error('Failed to list domain versions:', error);
+    return NextResponse.json(
+      { error: status === 500 ? 'Failed to list domain versions' : (error as Error).message },
+      { status }
+    );
+  }
+}
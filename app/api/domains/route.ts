@@ -1,86 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
 import { DomainConfig } from '@/common/domains';
-
-const DOMAINS_FILE_PATH = path.join(process.cwd(), 'common', 'domains.json');
+import { readAIDomains, createAIDomain, domainErrorStatus, DomainStoreError } from '@/common/domain-store';
 
 // GET /api/domains - Load all AI-generated domains
 export async function GET() {
-  try {
-    const fileContent = await fs.readFile(DOMAINS_FILE_PATH, 'utf-8');
-    const data = JSON.parse(fileContent);
-    return NextResponse.json(data);
-  } catch (error) {
-    // If file doesn't exist or is invalid, return empty array
-    console.error('Failed to read domains.json:', error);
-    return NextResponse.json({ domains: [] });
-  }
+  return NextResponse.json({ domains: await readAIDomains() });
 }
 
-// POST /api/domains - Save a new AI-generated domain
+// POST /api/domains - Save a new AI-generated domain (as version 1)
 export async function POST(request: NextRequest) {
+  let body: { domain: DomainConfig };
   try {
-    const { domain } = await request.json() as { domain: DomainConfig };
-
-    if (!domain || !domain.id || !domain.name) {
-      return NextResponse.json(
-        { error: 'Invalid domain configuration' },
-        { status: 400 }
-      );
-    }
-
-    // Validate domain structure
-    if (!domain.keywords || !Array.isArray(domain.keywords)) {
-      return NextResponse.json(
-        { error: 'Domain must have keywords array' },
-        { status: 400 }
-      );
-    }
-
-    if (!domain.questions || !Array.isArray(domain.questions)) {
-      return NextResponse.json(
-        { error: 'Domain must have questions array' },
-        { status: 400 }
-      );
-    }
-
-    // Read existing domains
-    let existingDomains: DomainConfig[] = [];
-    try {
-      const fileContent = await fs.readFile(DOMAINS_FILE_PATH, 'utf-8');
-      const data = JSON.parse(fileContent);
-      existingDomains = data.domains || [];
-    } catch (error) {
-      // File doesn't exist yet, will create it
-      console.log('Creating new domains.json file');
-    }
-
-    // Check for duplicate IDs
-    const isDuplicate = existingDomains.some(d => d.id === domain.id);
-    if (isDuplicate) {
-      return NextResponse.json(
-        { error: 'Domain with this ID already exists' },
-        { status: 409 }
-      );
-    }
-
-    // Add new domain
-    existingDomains.push(domain);
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
 
-    // Write back to file
-    await fs.writeFile(
-      DOMAINS_FILE_PATH,
-      JSON.stringify({ domains: existingDomains }, null, 2),
-      'utf-8'
-    );
+  try {
+    const created = await createAIDomain(body?.domain);
 
-    return NextResponse.json({ 
-      success: true, 
-      domain,
-      message: 'Domain saved successfully' 
+    return NextResponse.json({
+      success: true,
+      domain: created,
+      message: 'Domain saved successfully'
     });
   } catch (error) {
+    const status = domainErrorStatus(error);
+    if (status !== 500) {
+      return NextResponse.json({ error: (error as DomainStoreError).message, errors: (error as DomainStoreError).errors }, { status });
+    }
+
     console.error('Failed to save domain:', error);
     return NextResponse.json(
       { error: 'Failed to save domain configuration' },
@@ -88,4 +37,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
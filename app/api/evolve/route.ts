@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { evolveUIWithAI, UIState } from '@/common/generator';
+import { PatchError } from '@/common/patch';
+import { UIStateSchema } from '@/common/schema';
+import { syncAIDomains } from '@/common/domain-store';
+import '@/common/custom-components';
+
+// POST /api/evolve - Evolve a UI state from a natural-language instruction with the server-side LLM
+export async function POST(request: NextRequest) {
+  let body: {
+    state: UIState;
+    data: Record<string, unknown>;
+    instruction: string;
+    apiKey?: string;
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const { state, data, instruction, apiKey } = body ?? {};
+
+    if (!state || !data || typeof data !== 'object' || typeof instruction !== 'string' || !instruction.trim()) {
+      return NextResponse.json(
+        { error: 'Request must include state, data and instruction' },
+        { status: 400 }
+      );
+    }
+
+    const stateCheck = UIStateSchema.safeParse(state);
+    if (!stateCheck.success) {
+      const errors = stateCheck.error.issues.map(issue => `${['state', ...issue.path].join('.')}: ${issue.message}`);
+      return NextResponse.json(
+        { error: 'Invalid UI state', errors },
+        { status: 400 }
+      );
+    }
+
+    // The evolution prompt uses the matched domain's prompt overrides
+    await syncAIDomains();
+    const result = await evolveUIWithAI(state, data, instruction.trim(), apiKey || undefined);
+    return NextResponse.json(result);
+  } catch (error) {
+    // The model proposed diffs that don't apply or hold invalid components - report why
+    if (error instanceof PatchError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 422 }
+      );
+    }
+
+    console.error('Failed to evolve UI:', error);
+    return NextResponse.json(
+      { error: 'Failed to evolve UI' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserAnswers } from '@/common/generator';
+import { cachedGenerateUIWithAI } from '@/common/ai-cache';
+import { ContextAnalysis } from '@/common/analyzer';
+import { syncAIDomains } from '@/common/domain-store';
+import '@/common/custom-components';
+
+// POST /api/generate - Generate a UI schema (or follow-up questions) with the server-side LLM
+export async function POST(request: NextRequest) {
+  let body: {
+    data: Record<string, unknown>;
+    analysis: ContextAnalysis;
+    answers?: UserAnswers;
+    apiKey?: string;
+    refresh?: boolean;
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const { data, analysis, answers, apiKey, refresh } = body;
+
+    if (!data || typeof data !== 'object' || !analysis) {
+      return NextResponse.json(
+        { error: 'Request must include data and analysis' },
+        { status: 400 }
+      );
+    }
+
+    // Same view of the saved domains as /api/analyze and /api/evolve
+    await syncAIDomains();
+
+    // Falls back to rule-based generation itself, so this only fails on bad input
+    const result = await cachedGenerateUIWithAI(data, analysis, answers, apiKey || undefined, { refresh });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Failed to generate UI:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate UI' },
+      { status: 500 }
+    );
+  }
+}
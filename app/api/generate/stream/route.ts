@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserAnswers } from '@/common/generator';
+import { cachedGenerateUIWithAI } from '@/common/ai-cache';
+import { ContextAnalysis } from '@/common/analyzer';
+import { syncAIDomains } from '@/common/domain-store';
+import '@/common/custom-components';
+import { validateSchema } from '@/common/components';
+import type { GenerationStreamEvent } from '@/common/ai-client';
+
+// POST /api/generate/stream - Like /api/generate, but streams newline-delimited JSON events:
+// a "child" event per completed top-level section, then "done" with the final result
+export async function POST(request: NextRequest) {
+  let body: {
+    data: Record<string, unknown>;
+    analysis: ContextAnalysis;
+    answers?: UserAnswers;
+    apiKey?: string;
+    refresh?: boolean;
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const { data, analysis, answers, apiKey, refresh } = body;
+
+  if (!data || typeof data !== 'object' || !analysis) {
+    return NextResponse.json(
+      { error: 'Request must include data and analysis' },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: GenerationStreamEvent) => {
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      try {
+        await syncAIDomains();
+        const result = await cachedGenerateUIWithAI(data, analysis, answers, apiKey || undefined, {
+          refresh,
+          // Only show sections that render as-is; the final result carries the repaired schema
+          onChild: (schema, index, rootProps) => {
+            if (validateSchema(schema).valid) send({ type: 'child', index, schema, rootProps });
+          }
+        });
+        send({ type: 'done', result });
+      } catch (error) {
+        console.error('Failed to generate UI:', error);
+        send({ type: 'error', error: 'Failed to generate UI' });
+      } finally {
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache'
+    }
+  });
+}
@@ -0,0 +1,398 @@
+'use client'
+
+import * as React from "react"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, Copy, Loader2, Pencil, Plus, Save, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DomainConfig, LayoutHints, LayoutHintsSchema, matchDomain } from "@/common/domains"
+import { fetchAllDomains, updateDomain, deleteDomain, duplicateDomain } from "@/common/domain-client"
+import { examples } from "@/common/examples"
+
+const inputClassName = "w-full rounded-md border border-white/20 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/40 focus:border-white/40 focus:outline-none focus:ring-1 focus:ring-white/20"
+
+// Layout hint fields and their allowed values, straight from the schema
+const LAYOUT_HINT_OPTIONS = Object.fromEntries(
+  Object.entries(LayoutHintsSchema.shape).map(([key, field]) => [key, field.unwrap().options as string[]])
+) as Record<keyof LayoutHints, string[]>
+
+// Select value for "no hint" or "no parent" (Radix selects can't use an empty string)
+const NONE = 'none'
+
+// Keywords and options are edited as comma-separated text
+interface DomainDraft {
+  extends: string
+  keywords: string
+  negativeKeywords: string
+  questions: Array<{ id: string; text: string; options: string; impact: string }>
+  layoutHints: LayoutHints
+}
+
+function toDraft(domain: DomainConfig): DomainDraft {
+  return {
+    extends: domain.extends ?? NONE,
+    keywords: domain.keywords.join(', '),
+    negativeKeywords: (domain.negativeKeywords || []).join(', '),
+    questions: domain.questions.map(question => ({ ...question, options: question.options.join(', ') })),
+    layoutHints: { ...domain.layoutHints }
+  }
+}
+
+function splitList(text: string): string[] {
+  return text.split(',').map(item => item.trim()).filter(Boolean)
+}
+
+function fromDraft(draft: DomainDraft): Pick<DomainConfig, 'extends' | 'keywords' | 'negativeKeywords' | 'questions' | 'layoutHints'> {
+  return {
+    extends: draft.extends === NONE ? undefined : draft.extends,
+    keywords: splitList(draft.keywords).map(keyword => keyword.toLowerCase()),
+    negativeKeywords: splitList(draft.negativeKeywords).map(keyword => keyword.toLowerCase()),
+    questions: draft.questions.map(question => ({ ...question, options: splitList(question.options) })),
+    layoutHints: draft.layoutHints
+  }
+}
+
+// Names of the example datasets that would be matched to `domainId`
+function matchingExamples(domainId: string, domains: DomainConfig[]): string[] {
+  return examples
+    .filter(example => matchDomain(example.data, domains)?.id === domainId)
+    .map(example => example.name)
+}
+
+export default function DomainsPage() {
+  const router = useRouter()
+
+  const [domains, setDomains] = React.useState<DomainConfig[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [busyId, setBusyId] = React.useState<string | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  // The domain being edited and its unsaved changes
+  const [editingId, setEditingId] = React.useState<string | null>(null)
+  const [draft, setDraft] = React.useState<DomainDraft | null>(null)
+
+  React.useEffect(() => {
+    fetchAllDomains()
+      .then(setDomains)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setLoading(false))
+  }, [])
+
+  // Domains as they would be with the draft saved - used for the match preview
+  const previewDomains = React.useMemo(() => {
+    if (!editingId || !draft) return domains
+    return domains.map(domain => (domain.id === editingId ? { ...domain, ...fromDraft(draft) } : domain))
+  }, [domains, editingId, draft])
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleEdit = (domain: DomainConfig) => {
+    setEditingId(domain.id)
+    setDraft(toDraft(domain))
+    setError(null)
+  }
+
+  const handleCancel = () => {
+    setEditingId(null)
+    setDraft(null)
+  }
+
+  const handleSave = () => run(editingId!, async () => {
+    // Replaced as a whole, so removing the parent drops `extends`
+    const current = domains.find(domain => domain.id === editingId)!
+    const saved = await updateDomain(editingId!, { ...current, ...fromDraft(draft!) }, { replace: true })
+    setDomains(current => current.map(domain => (domain.id === saved.id ? saved : domain)))
+    handleCancel()
+  })
+
+  const handleDelete = (domain: DomainConfig) => {
+    if (!window.confirm(`Delete "${domain.name}" and its version history?`)) return
+    run(domain.id, async () => {
+      await deleteDomain(domain.id)
+      setDomains(current => current.filter(entry => entry.id !== domain.id))
+      if (editingId === domain.id) handleCancel()
+    })
+  }
+
+  const handleDuplicate = (domain: DomainConfig) => run(domain.id, async () => {
+    const copy = await duplicateDomain(domain)
+    setDomains(current => [...current, copy])
+    handleEdit(copy)
+  })
+
+  const updateQuestion = (index: number, field: keyof DomainDraft['questions'][number], value: string) => {
+    setDraft(current => current && {
+      ...current,
+      questions: current.questions.map((question, i) => (i === index ? { ...question, [field]: value } : question))
+    })
+  }
+
+  const addQuestion = () => {
+    setDraft(current => current && {
+      ...current,
+      questions: [
+        ...current.questions,
+        { id: `question_${current.questions.length + 1}`, text: '', options: '', impact: 'section_priority' }
+      ]
+    })
+  }
+
+  const removeQuestion = (index: number) => {
+    setDraft(current => current && { ...current, questions: current.questions.filter((_, i) => i !== index) })
+  }
+
+  const setLayoutHint = (key: keyof LayoutHints, value: string) => {
+    setDraft(current => current && {
+      ...current,
+      layoutHints: { ...current.layoutHints, [key]: value === NONE ? undefined : value }
+    })
+  }
+
+  return (
+    <div className="min-h-screen bg-background noise-bg">
+      {/* Header */}
+      <header className="border-b border-white/10">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight text-gradient">
+                Domains
+              </h1>
+              <p className="mt-1 text-muted-foreground">
+                System and learned domains used to match data and shape generated dashboards
+              </p>
+            </div>
+            <Button variant="outline" onClick={() => router.push('/')}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to PAM Builder
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-4">
+        {error && (
+          <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-4 text-sm text-red-300">
+            {error}
+          </div>
+        )}
+
+        {loading && (
+          <div className="text-center text-white/60 animate-pulse py-12">Loading domains...</div>
+        )}
+
+        {domains.map(domain => {
+          const editing = editingId === domain.id && draft
+          const busy = busyId === domain.id
+          const matches = matchingExamples(domain.id, editing ? previewDomains : domains)
+
+          return (
+            <Card key={domain.id}>
+              <CardHeader>
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <CardTitle>{domain.name}</CardTitle>
+                      <Badge variant="outline">{domain.createdBy === 'system' ? 'system' : 'learned'}</Badge>
+                      {domain.version && <Badge variant="outline">v{domain.version}</Badge>}
+                      {domain.extends && (
+                        <Badge variant="secondary">
+                          extends {domains.find(entry => entry.id === domain.extends)?.name ?? domain.extends}
+                        </Badge>
+                      )}
+                    </div>
+                    <CardDescription>{domain.description}</CardDescription>
+                    <div className="text-xs font-mono text-white/40">{domain.id}</div>
+                  </div>
+                  <div className="flex gap-2">
+                    {busy && <Loader2 className="h-4 w-4 animate-spin text-white/60 self-center" />}
+                    {domain.createdBy !== 'system' && !editing && (
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(domain)} disabled={busy}>
+                        <Pencil className="h-3 w-3" />
+                        Edit
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => handleDuplicate(domain)} disabled={busy}>
+                      <Copy className="h-3 w-3" />
+                      Duplicate
+                    </Button>
+                    {domain.createdBy !== 'system' && (
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(domain)} disabled={busy}>
+                        <Trash2 className="h-3 w-3" />
+                        Delete
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+
+              <CardContent className="space-y-4">
+                {/* Match preview */}
+                <div className="text-xs text-white/60">
+                  {matches.length > 0
+                    ? <>Matches examples: <span className="text-white/80">{matches.join(', ')}</span></>
+                    : 'Matches none of the example datasets'}
+                  {editing && ' (with unsaved changes)'}
+                </div>
+
+                {!editing ? (
+                  <>
+                    <div className="flex flex-wrap gap-1">
+                      {domain.keywords.map(keyword => (
+                        <Badge key={keyword} variant="secondary">{keyword}</Badge>
+                      ))}
+                      {domain.negativeKeywords?.map(keyword => (
+                        <Badge key={`not-${keyword}`} variant="outline" className="line-through">{keyword}</Badge>
+                      ))}
+                    </div>
+                    <ul className="space-y-1 text-sm text-white/70">
+                      {domain.questions.map(question => (
+                        <li key={question.id}>
+                          {question.text} <span className="text-white/40">({question.options.join(' / ')})</span>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="text-xs font-mono text-white/40">
+                      {Object.entries(domain.layoutHints).map(([key, value]) => `${key}: ${value}`).join(' · ')}
+                    </div>
+                  </>
+                ) : (
+                  <div className="space-y-6">
+                    {/* Parent */}
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-white">Extends (inherits keywords, questions and layout hints)</label>
+                      <Select value={draft.extends} onValueChange={value => setDraft({ ...draft, extends: value })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>(none)</SelectItem>
+                          {domains.filter(entry => entry.id !== domain.id).map(entry => (
+                            <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {/* Keywords */}
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-white">Keywords (comma-separated)</label>
+                      <input
+                        type="text"
+                        value={draft.keywords}
+                        onChange={e => setDraft({ ...draft, keywords: e.target.value })}
+                        className={inputClassName}
+                      />
+                    </div>
+
+                    {/* Negative keywords */}
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-white">Negative keywords (count against a match)</label>
+                      <input
+                        type="text"
+                        value={draft.negativeKeywords}
+                        onChange={e => setDraft({ ...draft, negativeKeywords: e.target.value })}
+                        className={inputClassName}
+                      />
+                    </div>
+
+                    {/* Questions */}
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <label className="text-sm font-medium text-white">Questions</label>
+                        <Button variant="ghost" size="sm" onClick={addQuestion}>
+                          <Plus className="h-3 w-3" />
+                          Add question
+                        </Button>
+                      </div>
+                      {draft.questions.map((question, index) => (
+                        <div key={index} className="grid gap-2 rounded-lg border border-white/10 bg-white/5 p-3 sm:grid-cols-[1fr_2fr_2fr_1fr_auto]">
+                          <input
+                            type="text"
+                            value={question.id}
+                            onChange={e => updateQuestion(index, 'id', e.target.value)}
+                            placeholder="id"
+                            className={`${inputClassName} font-mono`}
+                          />
+                          <input
+                            type="text"
+                            value={question.text}
+                            onChange={e => updateQuestion(index, 'text', e.target.value)}
+                            placeholder="Question text?"
+                            className={inputClassName}
+                          />
+                          <input
+                            type="text"
+                            value={question.options}
+                            onChange={e => updateQuestion(index, 'options', e.target.value)}
+                            placeholder="Option 1, Option 2, Option 3"
+                            className={inputClassName}
+                          />
+                          <input
+                            type="text"
+                            value={question.impact}
+                            onChange={e => updateQuestion(index, 'impact', e.target.value)}
+                            placeholder="impact"
+                            className={`${inputClassName} font-mono`}
+                          />
+                          <Button variant="ghost" size="icon-sm" onClick={() => removeQuestion(index)}>
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+
+                    {/* Layout hints */}
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-white">Layout hints</label>
+                      <div className="grid gap-2 sm:grid-cols-4">
+                        {(Object.keys(LAYOUT_HINT_OPTIONS) as Array<keyof LayoutHints>).map(key => (
+                          <div key={key} className="space-y-1">
+                            <div className="text-xs text-white/50">{key}</div>
+                            <Select value={draft.layoutHints[key] ?? NONE} onValueChange={value => setLayoutHint(key, value)}>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NONE}>(none)</SelectItem>
+                                {LAYOUT_HINT_OPTIONS[key].map(option => (
+                                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex gap-2">
+                      <Button onClick={handleSave} disabled={busy}>
+                        <Save className="h-4 w-4" />
+                        Save as v{(domain.version ?? 1) + 1}
+                      </Button>
+                      <Button variant="ghost" onClick={handleCancel} disabled={busy}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )
+        })}
+      </main>
+    </div>
+  )
+}
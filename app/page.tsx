@@ -2,19 +2,34 @@
 
 import * as React from "react"
 import { analyzeContext, ContextAnalysis, Question } from "@/common/analyzer"
-import { generateUI, createUIState, UIState, generateUIWithAI } from "@/common/generator"
+import { generateUI, createUIState, UIState, undoUI, redoUI, checkoutVersion, listVersions, EvolutionDiff, GenerationAttempt } from "@/common/generator"
+import "@/common/custom-components"
 import { DynamicRendererWithBoundary } from "@/components/DynamicRenderer"
+import { SchemaDiffView } from "@/components/SchemaDiffView"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { ChevronRight, Copy, Check, ExternalLink, Sparkles, Loader2, Download } from "lucide-react"
+import { ChevronRight, Copy, Check, ExternalLink, Sparkles, Loader2, Download, Undo2, Redo2, History } from "lucide-react"
 import { CodeEditor, validateJSON } from "@/components/ui/code-editor"
 import { examples, getExampleById, formatExampleJSON } from "@/common/examples"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useRouter } from "next/navigation"
-import { analyzeJSONWithAI, AIAnalysisResult } from "@/common/ai-analyzer"
+import type { AIAnalysisResult } from "@/common/ai-analyzer"
+import { requestAnalysis, requestGenerationStream, requestEvolution } from "@/common/ai-client"
 import { DomainConfig, loadAIDomains, saveAIDomain } from "@/common/domains"
+import { explainCandidate } from "@/common/domain-matching"
 import { generateHTMLExport, downloadHTML, generateFilename } from "@/lib/htmlExport"
+import type { ComponentSchema } from "@/common/components"
+import { validateBindings } from "@/common/bindings"
+
+// Short human-readable summary of a history diff
+function describeDiff(diff: EvolutionDiff): string {
+  const target = diff.value ? ` ${diff.value.component}` : ''
+  if (diff.operation === 'move') {
+    return `move ${diff.from} → ${diff.path}`
+  }
+  return `${diff.operation}${target} at ${diff.path || '/'}`
+}
 
 export default function Home() {
   const router = useRouter()
@@ -30,6 +45,12 @@ export default function Home() {
   const [userAnswers, setUserAnswers] = React.useState<Record<string, string>>({})
   const [uiState, setUIState] = React.useState<UIState | null>(null)
   const [showSchema, setShowSchema] = React.useState(false)
+
+  // Schema comparison state ('previous' refers to the dashboard before the last regeneration)
+  const [showDiff, setShowDiff] = React.useState(false)
+  const [previousGeneration, setPreviousGeneration] = React.useState<ComponentSchema | null>(null)
+  const [compareFrom, setCompareFrom] = React.useState<string>('')
+  const [compareTo, setCompareTo] = React.useState<string>('')
   const [copied, setCopied] = React.useState(false)
   
   // AI analysis state
@@ -41,6 +62,15 @@ export default function Home() {
   // AI generation state
   const [aiGenerating, setAiGenerating] = React.useState(false)
   const [aiGenerationReasoning, setAiGenerationReasoning] = React.useState<string | null>(null)
+  const [aiRepairs, setAiRepairs] = React.useState<string[]>([])
+  const [aiAttempts, setAiAttempts] = React.useState<GenerationAttempt[]>([])
+  const [aiPromptVersion, setAiPromptVersion] = React.useState<string | null>(null)
+  const [streamingSchema, setStreamingSchema] = React.useState<ComponentSchema | null>(null)
+
+  // AI evolution state
+  const [evolveInstruction, setEvolveInstruction] = React.useState('')
+  const [aiEvolving, setAiEvolving] = React.useState(false)
+  const [evolutionError, setEvolutionError] = React.useState<string | null>(null)
 
   // API key state
   const [geminiApiKey, setGeminiApiKey] = React.useState('')
@@ -70,6 +100,8 @@ export default function Home() {
       setAnalysis(null)
       setUserAnswers({})
       setUIState(null)
+      setPreviousGeneration(null)
+      setShowDiff(false)
       setCurrentPhase(1)
       setAiResult(null)
       setShowNewDomainModal(false)
@@ -91,7 +123,7 @@ export default function Home() {
 
     try {
       // Call AI to analyze JSON
-      const aiAnalysis = await analyzeJSONWithAI(validation.data, geminiApiKey || undefined)
+      const aiAnalysis = await requestAnalysis(validation.data, geminiApiKey || undefined)
       setAiResult(aiAnalysis)
       
       // If new domain needed, show modal for user confirmation
@@ -144,13 +176,34 @@ export default function Home() {
     }
   }
   
+  // Replace the dashboard with a freshly generated one, keeping the old schema for comparison
+  const commitGeneratedState = (state: UIState) => {
+    if (uiState) {
+      setPreviousGeneration(uiState.schema)
+    }
+    setUIState(state)
+  }
+
+  // Show each top-level section as soon as it has streamed in
+  const handleStreamedChild = (child: ComponentSchema, _index: number, rootProps?: Record<string, unknown>) => {
+    setStreamingSchema(prev => ({
+      component: 'Container',
+      props: rootProps || prev?.props || { cols: 3, gap: 'md' },
+      children: [...(prev?.children || []), child]
+    }))
+  }
+
   // Try AI generation after analysis
   const tryAIGeneration = async (data: Record<string, any>, analysisResult: ContextAnalysis, apiKey?: string) => {
     setAiGenerating(true)
+    setStreamingSchema(null)
 
     try {
-      const aiGenResult = await generateUIWithAI(data, analysisResult, undefined, apiKey)
+      const aiGenResult = await requestGenerationStream(data, analysisResult, undefined, apiKey, handleStreamedChild)
       setAiGenerationReasoning(aiGenResult.reasoning || null)
+      setAiPromptVersion(aiGenResult.promptVersion || null)
+      setAiRepairs(aiGenResult.repairs || [])
+      setAiAttempts(aiGenResult.attempts || [])
       
       if (aiGenResult.needsQuestions && aiGenResult.questions) {
         // AI wants questions - show Phase 2
@@ -162,7 +215,7 @@ export default function Home() {
       } else if (aiGenResult.schema) {
         // AI generated schema directly - skip to Phase 3
         const state = createUIState(data, aiGenResult.schema)
-        setUIState(state)
+        commitGeneratedState(state)
         setCurrentPhase(3)
       }
     } catch (error) {
@@ -171,6 +224,7 @@ export default function Home() {
       setCurrentPhase(2)
     } finally {
       setAiGenerating(false)
+      setStreamingSchema(null)
     }
   }
   
@@ -194,6 +248,12 @@ export default function Home() {
     }))
   }
 
+  // Check the current schema's data bindings against the input
+  const bindingCheck = React.useMemo(
+    () => (uiState && parsedData ? validateBindings(uiState.schema, parsedData) : null),
+    [uiState, parsedData]
+  )
+
   // Check if all questions are answered
   const allQuestionsAnswered = analysis?.questions.every(q => userAnswers[q.id]) ?? false
 
@@ -202,22 +262,26 @@ export default function Home() {
     if (!analysis || !parsedData) return
 
     setAiGenerating(true)
+    setStreamingSchema(null)
 
     try {
       // Try AI generation with user answers
-      const aiGenResult = await generateUIWithAI(parsedData, analysis, userAnswers, geminiApiKey || undefined)
+      const aiGenResult = await requestGenerationStream(parsedData, analysis, userAnswers, geminiApiKey || undefined, handleStreamedChild)
       setAiGenerationReasoning(aiGenResult.reasoning || null)
+      setAiPromptVersion(aiGenResult.promptVersion || null)
+      setAiRepairs(aiGenResult.repairs || [])
+      setAiAttempts(aiGenResult.attempts || [])
       
       if (aiGenResult.schema) {
         console.log('AI Generated Schema:', JSON.stringify(aiGenResult.schema, null, 2));
         const state = createUIState(parsedData, aiGenResult.schema)
-        setUIState(state)
+        commitGeneratedState(state)
         setCurrentPhase(3)
       } else {
         // Fallback to rule-based if AI didn't return schema
         const schema = generateUI(parsedData, analysis, userAnswers)
         const state = createUIState(parsedData, schema)
-        setUIState(state)
+        commitGeneratedState(state)
         setCurrentPhase(3)
       }
     } catch (error) {
@@ -225,10 +289,11 @@ export default function Home() {
       // Fallback to rule-based generation
       const schema = generateUI(parsedData, analysis, userAnswers)
       const state = createUIState(parsedData, schema)
-      setUIState(state)
+      commitGeneratedState(state)
       setCurrentPhase(3)
     } finally {
       setAiGenerating(false)
+      setStreamingSchema(null)
     }
   }
 
@@ -255,6 +320,70 @@ export default function Home() {
     router.push('/preview')
   }
 
+  // Evolve the current dashboard from a natural-language instruction
+  const handleEvolve = async () => {
+    if (!uiState || !parsedData || !evolveInstruction.trim()) return
+
+    setAiEvolving(true)
+    setEvolutionError(null)
+
+    try {
+      const result = await requestEvolution(uiState, parsedData, evolveInstruction.trim(), geminiApiKey || undefined)
+      setUIState(result.state)
+      setAiGenerationReasoning(result.reasoning || null)
+      setAiPromptVersion(result.promptVersion || null)
+      setEvolveInstruction('')
+    } catch (error) {
+      console.error('AI evolution error:', error)
+      setEvolutionError(error instanceof Error ? error.message : 'Evolution failed')
+    } finally {
+      setAiEvolving(false)
+    }
+  }
+
+  // Time-travel through recorded evolution history
+  const handleUndo = () => {
+    if (uiState) setUIState(undoUI(uiState))
+  }
+
+  const handleRedo = () => {
+    if (uiState) setUIState(redoUI(uiState))
+  }
+
+  const handleCheckoutVersion = (version: string) => {
+    if (!uiState) return
+
+    try {
+      setUIState(checkoutVersion(uiState, version))
+    } catch (error) {
+      console.error('Failed to check out version:', error)
+    }
+  }
+
+  // Open the schema comparison, defaulting to the previous version vs. the current one
+  const handleToggleDiff = () => {
+    if (!uiState) return
+
+    if (!showDiff) {
+      const previousVersion = uiState.history[uiState.history.length - 1]?.version
+      setCompareFrom(previousVersion || (previousGeneration ? 'previous' : uiState.version))
+      setCompareTo(uiState.version)
+    }
+    setShowDiff(!showDiff)
+  }
+
+  // Resolve a comparison option to its schema
+  const getComparedSchema = (key: string): ComponentSchema | null => {
+    if (!uiState) return null
+    if (key === 'previous') return previousGeneration
+
+    try {
+      return checkoutVersion(uiState, key).schema
+    } catch {
+      return null
+    }
+  }
+
   // Save dashboard as HTML
   const handleSaveAsHTML = () => {
     if (!dashboardRef.current || !uiState) return
@@ -296,6 +425,9 @@ export default function Home() {
                 Context-driven interface generation powered by your Proactive AI Manager
               </p>
             </div>
+            <Button variant="outline" size="sm" className="ml-auto" onClick={() => router.push('/domains')}>
+              Manage domains
+            </Button>
           </div>
         </div>
       </header>
@@ -381,16 +513,17 @@ export default function Home() {
               <CardContent className="space-y-4">
                 {/* Gemini API Key Input */}
                 <div className="space-y-2">
-                  <label className="text-sm font-medium text-white">Gemini API Key</label>
+                  <label className="text-sm font-medium text-white">Gemini API Key (optional)</label>
                   <input
-                    type="text"
+                    type="password"
+                    autoComplete="off"
                     value={geminiApiKey}
                     onChange={(e) => setGeminiApiKey(e.target.value)}
                     className="w-full rounded-md border border-white/20 bg-white/5 px-3 py-2 text-sm font-mono text-white placeholder:text-white/40 focus:border-white/40 focus:outline-none focus:ring-1 focus:ring-white/20"
-                    placeholder="Enter your Gemini API key..."
+                    placeholder="Uses the server's key unless you enter your own..."
                   />
                   <p className="text-xs text-muted-foreground">
-                    Get your API key from{' '}
+                    Only sent to this app&apos;s server, never stored. Get your API key from{' '}
                     <a
                       href="https://aistudio.google.com/apikey"
                       target="_blank"
@@ -481,11 +614,24 @@ export default function Home() {
                     <div className="text-xs text-white/70">
                       {aiResult.reasoning}
                     </div>
+                    {aiResult.promptVersion && (
+                      <div className="text-xs font-mono text-white/40">prompt {aiResult.promptVersion}</div>
+                    )}
                     {aiResult.matchedDomain && (
                       <Badge variant="outline">
                         Matched: {aiResult.matchedDomain.name}
                       </Badge>
                     )}
+                    {aiResult.candidates && aiResult.candidates.length > 0 && (
+                      <details className="text-xs text-white/50">
+                        <summary className="cursor-pointer">Why this domain</summary>
+                        <ul className="mt-1 space-y-0.5 font-mono">
+                          {aiResult.candidates.map(candidate => (
+                            <li key={candidate.domain.id}>{explainCandidate(candidate)}</li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
                   </div>
                 )}
 
@@ -516,6 +662,36 @@ export default function Home() {
                     <div className="text-xs text-white/70">
                       {aiGenerationReasoning}
                     </div>
+                    {aiPromptVersion && (
+                      <div className="text-xs font-mono text-white/40">prompt {aiPromptVersion}</div>
+                    )}
+                    {aiAttempts.length > 1 && (
+                      <details className="text-xs text-white/50">
+                        <summary className="cursor-pointer">
+                          Corrected over {aiAttempts.length} attempts
+                          {aiAttempts.every(({ errors }) => errors.length > 0) && ' (some errors remain)'}
+                        </summary>
+                        <ul className="mt-1 space-y-1 font-mono">
+                          {aiAttempts.map(({ attempt, errors }) => (
+                            <li key={attempt}>
+                              Attempt {attempt}: {errors.length === 0 ? 'no errors' : errors.join('; ')}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
+                    {aiRepairs.length > 0 && (
+                      <details className="text-xs text-white/50">
+                        <summary className="cursor-pointer">
+                          {aiRepairs.length} automatic schema repair{aiRepairs.length === 1 ? '' : 's'}
+                        </summary>
+                        <ul className="mt-1 space-y-0.5 font-mono">
+                          {aiRepairs.map((repair, index) => (
+                            <li key={index}>{repair}</li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
                   </div>
                 )}
 
@@ -651,6 +827,13 @@ export default function Home() {
                         >
                           {showSchema ? 'Hide' : 'Show'} Schema
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleToggleDiff}
+                        >
+                          {showDiff ? 'Hide' : 'Compare'} Versions
+                        </Button>
                         <Button
                           variant="outline"
                           size="sm"
@@ -673,20 +856,98 @@ export default function Home() {
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
-                {currentPhase === 3 && uiState ? (
+                {currentPhase === 3 && uiState && !streamingSchema ? (
                   <>
                     {/* Schema Display */}
                     {showSchema && (
-                      <div className="rounded-lg border border-white/10 bg-white/5 p-4">
-                        <div className="mb-2 text-xs font-medium text-white/60">
-                          Generated UI Schema
+                      <div className="grid gap-4 xl:grid-cols-[2fr_1fr]">
+                        <div className="rounded-lg border border-white/10 bg-white/5 p-4">
+                          <div className="mb-2 text-xs font-medium text-white/60">
+                            Generated UI Schema
+                          </div>
+                          <pre className="text-xs overflow-x-auto text-white/80">
+                            {JSON.stringify(uiState.schema, null, 2)}
+                          </pre>
                         </div>
-                        <pre className="text-xs overflow-x-auto text-white/80">
-                          {JSON.stringify(uiState.schema, null, 2)}
-                        </pre>
+
+                        {/* Binding Check */}
+                        {bindingCheck && (
+                          <div className="space-y-2 rounded-lg border border-white/10 bg-white/5 p-4">
+                            <div className="flex items-center justify-between">
+                              <div className="text-xs font-medium text-white/60">Data Bindings</div>
+                              <Badge variant={bindingCheck.valid ? 'success' : 'danger'}>
+                                {bindingCheck.valid
+                                  ? `${bindingCheck.checked} OK`
+                                  : `${bindingCheck.issues.length} issue${bindingCheck.issues.length === 1 ? '' : 's'}`}
+                              </Badge>
+                            </div>
+                            {bindingCheck.valid ? (
+                              <div className="text-xs text-white/50">
+                                All bindings resolve against the input data
+                              </div>
+                            ) : (
+                              <ul className="space-y-2">
+                                {bindingCheck.issues.map((issue, index) => (
+                                  <li key={index} className="text-xs">
+                                    <div className="font-mono text-white/80">{issue.path}</div>
+                                    <div className={issue.kind === 'dangling' ? 'text-red-400' : 'text-amber-300'}>
+                                      {issue.message}
+                                    </div>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        )}
                       </div>
                     )}
 
+                    {/* Schema Comparison */}
+                    {showDiff && (() => {
+                      const options = [
+                        ...(previousGeneration ? [{ key: 'previous', label: 'Previous generation' }] : []),
+                        ...listVersions(uiState).map(version => ({
+                          key: version,
+                          label: `v${version}${version === uiState.version ? ' (current)' : ''}`
+                        }))
+                      ]
+                      const fromSchema = getComparedSchema(compareFrom)
+                      const toSchema = getComparedSchema(compareTo)
+
+                      return (
+                        <div className="space-y-3 rounded-lg border border-white/10 bg-white/5 p-4">
+                          <div className="text-xs font-medium text-white/60">Compare Versions</div>
+                          <div className="grid grid-cols-2 gap-2">
+                            {[
+                              { value: compareFrom, onChange: setCompareFrom },
+                              { value: compareTo, onChange: setCompareTo }
+                            ].map((picker, index) => (
+                              <Select key={index} value={picker.value} onValueChange={picker.onChange}>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Choose a version..." />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {options.map(option => (
+                                    <SelectItem key={option.key} value={option.key}>
+                                      {option.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ))}
+                          </div>
+                          {fromSchema && toSchema && (
+                            <SchemaDiffView
+                              before={fromSchema}
+                              after={toSchema}
+                              beforeLabel={options.find(o => o.key === compareFrom)?.label}
+                              afterLabel={options.find(o => o.key === compareTo)?.label}
+                            />
+                          )}
+                        </div>
+                      )
+                    })()}
+
                     {/* Rendered UI */}
                     <div ref={dashboardRef} className="rounded-lg border border-white/10 bg-white/[0.02] p-6">
                       <DynamicRendererWithBoundary
@@ -703,7 +964,116 @@ export default function Home() {
                       <div>•</div>
                       <div>Created: {new Date(uiState.createdAt).toLocaleTimeString()}</div>
                     </div>
+
+                    {/* Evolve with PAM */}
+                    <div className="space-y-2 rounded-lg border border-white/10 bg-white/5 p-4">
+                      <label className="text-sm font-medium text-white">Evolve this dashboard</label>
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={evolveInstruction}
+                          onChange={(e) => setEvolveInstruction(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleEvolve()
+                          }}
+                          disabled={aiEvolving}
+                          className="flex-1 rounded-md border border-white/20 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-white/40 focus:border-white/40 focus:outline-none focus:ring-1 focus:ring-white/20"
+                          placeholder="e.g. add a chart of languages next to contributors"
+                        />
+                        <Button
+                          size="sm"
+                          className="h-auto"
+                          onClick={handleEvolve}
+                          disabled={aiEvolving || !evolveInstruction.trim()}
+                        >
+                          {aiEvolving ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <>
+                              <Sparkles className="mr-1 h-3 w-3" />
+                              Evolve
+                            </>
+                          )}
+                        </Button>
+                      </div>
+                      {evolutionError && (
+                        <div className="text-xs text-red-400">
+                          {evolutionError}
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Version Timeline */}
+                    {(uiState.history.length > 0 || (uiState.future?.length ?? 0) > 0) && (
+                      <div className="space-y-3 rounded-lg border border-white/10 bg-white/5 p-4">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <History className="h-4 w-4 text-white" />
+                            <div className="text-sm font-medium text-white">Version Timeline</div>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={handleUndo}
+                              disabled={uiState.history.length === 0}
+                            >
+                              <Undo2 className="mr-1 h-3 w-3" />
+                              Undo
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={handleRedo}
+                              disabled={!uiState.future?.length}
+                            >
+                              <Redo2 className="mr-1 h-3 w-3" />
+                              Redo
+                            </Button>
+                          </div>
+                        </div>
+                        <div className="space-y-1">
+                          {listVersions(uiState).map((version, index) => {
+                            // Each version is labelled with the diff that produced it
+                            const entries = [...uiState.history, ...[...(uiState.future || [])].reverse()]
+                            const isCurrent = index === uiState.history.length
+                            const isUndone = index > uiState.history.length
+                            return (
+                              <button
+                                key={version}
+                                onClick={() => handleCheckoutVersion(version)}
+                                disabled={isCurrent}
+                                className={`flex w-full items-center justify-between rounded-md px-3 py-2 text-left text-xs transition-colors ${
+                                  isCurrent
+                                    ? 'bg-white/15 text-white'
+                                    : 'text-white/60 hover:bg-white/10 hover:text-white'
+                                } ${isUndone ? 'opacity-50' : ''}`}
+                              >
+                                <span className="font-mono">v{version}</span>
+                                <span className="truncate pl-3">
+                                  {index === 0 ? 'Initial' : describeDiff(entries[index - 1].diff)}
+                                  {isCurrent && ' (current)'}
+                                </span>
+                              </button>
+                            )
+                          })}
+                        </div>
+                      </div>
+                    )}
                   </>
+                ) : streamingSchema ? (
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2 text-xs text-white/60">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Streaming dashboard - {streamingSchema.children?.length ?? 0} section{streamingSchema.children?.length === 1 ? '' : 's'} so far
+                    </div>
+                    <div className="rounded-lg border border-white/10 bg-white/[0.02] p-6">
+                      <DynamicRendererWithBoundary
+                        schema={streamingSchema}
+                        data={parsedData ?? {}}
+                      />
+                    </div>
+                  </div>
                 ) : (
                   <div className="flex h-[400px] items-center justify-center text-center">
                     <div className="space-y-2">
@@ -1,118 +1,104 @@
-// AI-powered JSON analysis using Google Gemini
+// AI-powered JSON analysis using an LLM provider (Google Gemini by default)
 // Determines if JSON matches existing domains or needs new configuration
 
-import { DomainConfig, matchDomain, SYSTEM_DOMAINS } from './domains';
+import { DomainConfig, matchDomain, rankAllDomains, selectCandidates, combineDomains, SYSTEM_DOMAINS } from './domains';
+import { explainCandidate, DomainCandidate } from './domain-matching';
 import { Question, ContextAnalysis } from './analyzer';
 import { ComponentSchema, COMPONENT_SPECS } from './components';
-import { AIGenerationResponseSchema, AIGenerationResponseLooseSchema, AIGenerationResponse } from './schema';
-import { zodToJsonSchema } from 'zod-to-json-schema';
-import { UserAnswers } from './generator';
-
-// Clean JSON schema for Gemini compatibility
-// Gemini doesn't support many JSON Schema features
-function cleanSchemaForGemini(schema: any): any {
-  if (schema === null || typeof schema !== 'object') {
-    return schema;
-  }
-
-  if (Array.isArray(schema)) {
-    return schema.map(cleanSchemaForGemini);
-  }
-
-  const cleaned: any = {};
-
-  for (const [key, value] of Object.entries(schema)) {
-    // Skip unsupported properties
-    if ([
-      '$schema',
-      '$id',
-      '$ref',
-      '$defs',
-      'definitions',
-      'additionalProperties',
-      'additionalItems',
-      'propertyNames',
-      'patternProperties',
-      'unevaluatedProperties',
-      'unevaluatedItems',
-      'contentEncoding',
-      'contentMediaType',
-      'if',
-      'then',
-      'else',
-      'allOf',
-      'oneOf',
-      'not',
-      'default'
-    ].includes(key)) {
-      console.log(`[AI] Removing unsupported schema property: ${key}`);
-      continue;
-    }
-
-    // Handle anyOf - Gemini may not support it well, simplify to first option
-    if (key === 'anyOf' && Array.isArray(value) && value.length > 0) {
-      console.log('[AI] Converting anyOf to first option');
-      const firstOption = cleanSchemaForGemini(value[0]);
-      Object.assign(cleaned, firstOption);
-      continue;
-    }
-
-    cleaned[key] = cleanSchemaForGemini(value);
-  }
-
-  return cleaned;
-}
+import { AIGenerationResponseSchema, AIGenerationResponseLooseSchema, AIGenerationResponse, AIEvolutionResponseSchema, AIEvolutionResponse } from './schema';
+import { UserAnswers, EvolutionDiff } from './generator';
+import { PatchError } from './patch';
+import { LLMProvider, LLMError, JSONSchema, createGeminiProvider, createProviderFromEnv, parseJSONResponse } from './llm';
+import { withResilience, resilienceOptionsFromEnv, describeFailure } from './llm-resilience';
+import { parsePartialJSON, isComplete } from './partial-json';
+import { profileData, formatProfile } from './sampler';
+import { renderPrompt, renderSections, RenderedPrompt } from './prompts';
+import { buildGenerationResponseSchema, unwrapEmulatedUnions, RESTRICTED_SCHEMA_FEATURES, DEFAULT_SCHEMA_DEPTH } from './structured-output';
+
+// Unvalidated JSON returned by the model
+type RawAIResponse = Record<string, any>;
 
 export interface AIAnalysisResult {
   needsNewDomain: boolean;
   matchedDomain?: DomainConfig;
   suggestedDomain?: DomainConfig;
   reasoning?: string;
+  promptVersion?: string;  // Prompt that produced the result, e.g. "analysis@1"
+  fallback?: boolean;  // Produced locally because the provider was unavailable or failed
+  candidates?: DomainCandidate[];  // Best local keyword matches - the "why this domain" explanation
+}
+
+export interface AnalysisOptions {
+  // Combine up to this many matched domains, e.g. for a repo with CI runs (default 1)
+  maxDomains?: number;
+}
+
+// Candidates returned with an analysis
+const MAX_CANDIDATES = 3;
+
+// Model responses along with the version of the prompt that produced them
+export type AIGenerationResult = AIGenerationResponse & { promptVersion: string };
+export type AIEvolutionResult = AIEvolutionResponse & { promptVersion: string };
+
+// Resolve the provider to use: an explicit provider (used as-is), a Gemini API key,
+// or whatever the environment configures. The latter two get timeouts and retries.
+// A misconfigured environment counts as no provider, so callers fall back to local analysis.
+export function resolveProvider(provided?: LLMProvider | string): LLMProvider | null {
+  if (provided && typeof provided !== 'string') return provided;
+  const provider = typeof provided === 'string' && provided
+    ? createGeminiProvider({ apiKey: provided })
+    : providerFromEnv();
+  console.log('LLM provider check:', provider ? provider.name : 'NOT CONFIGURED');
+  return provider && withResilience(provider, resilienceOptionsFromEnv());
 }
 
-// Get Gemini API key from parameter or environment
-function getGeminiAPIKey(providedKey?: string): string | null {
-  const key = providedKey || process.env.NEXT_PUBLIC_GEMINI_API_KEY || null;
-  console.log('Gemini API key check:', key ? `Found (${key.substring(0, 10)}...)` : 'NOT FOUND');
-  return key;
+function providerFromEnv(): LLMProvider | null {
+  try {
+    return createProviderFromEnv();
+  } catch (error) {
+    console.error('[AI] Invalid LLM configuration:', (error as Error).message);
+    return null;
+  }
 }
 
-// Analyze JSON data with Google Gemini
+// Analyze JSON data with the LLM provider (a Gemini API key also works)
 export async function analyzeJSONWithAI(
   data: Record<string, any>,
-  providedApiKey?: string
+  providedProvider?: LLMProvider | string,
+  { maxDomains = 1 }: AnalysisOptions = {}
 ): Promise<AIAnalysisResult> {
-  const apiKey = getGeminiAPIKey(providedApiKey);
+  const provider = resolveProvider(providedProvider);
   
-  if (!apiKey) {
-    console.warn('Gemini API key not found. Falling back to local analysis.');
-    return fallbackToLocalAnalysis(data);
+  if (!provider) {
+    console.warn('No LLM provider configured. Falling back to local analysis.');
+    return fallbackToLocalAnalysis(data, maxDomains);
   }
 
   try {
     // First, try local domain matching
-    const localMatch = matchDomain(data);
-    if (localMatch) {
+    const { match, explanation, candidates } = rankLocally(data, maxDomains);
+    if (match) {
       return {
         needsNewDomain: false,
-        matchedDomain: localMatch,
-        reasoning: 'Matched existing domain using keyword analysis'
+        matchedDomain: match,
+        reasoning: `Matched existing domain using keyword analysis (${explanation})`,
+        candidates
       };
     }
 
     // If no local match, use AI to analyze
     const prompt = buildAnalysisPrompt(data);
-    const result = await callGeminiAPI(apiKey, prompt);
+    const result = await requestDomainAnalysis(provider, prompt);
     
-    return result;
+    return { ...result, candidates };
   } catch (error) {
     console.error('AI analysis failed:', error);
-    return fallbackToLocalAnalysis(data);
+    return fallbackToLocalAnalysis(data, maxDomains, describeFailure(error));
   }
 }
 
-// Build the prompt for Gemini
-function buildAnalysisPrompt(data: Record<string, any>): string {
+// Build the prompt for domain analysis
+function buildAnalysisPrompt(data: Record<string, any>): RenderedPrompt {
   const dataStructure = analyzeDataStructure(data);
   const existingDomains = SYSTEM_DOMAINS.map(d => ({
     id: d.id,
@@ -120,51 +106,20 @@ function buildAnalysisPrompt(data: Record<string, any>): string {
     keywords: d.keywords
   }));
 
-  return `You are an expert at analyzing data structures and categorizing them into domains.
-
-EXISTING DOMAINS:
-${JSON.stringify(existingDomains, null, 2)}
-
-JSON DATA TO ANALYZE:
-Keys: ${dataStructure.keys.join(', ')}
-Structure: ${dataStructure.description}
-
-TASK:
-1. Determine if this JSON data fits into one of the existing domains (at least 30% keyword match)
-2. If yes, return the matching domain ID and explain why
-3. If no, create a NEW domain configuration
-
-OUTPUT FORMAT (JSON only, no markdown):
-{
-  "needsNewDomain": boolean,
-  "matchedDomainId": "domain_id" (if match found),
-  "reasoning": "brief explanation",
-  "newDomain": {
-    "id": "snake_case_id",
-    "name": "Human Readable Name",
-    "description": "Brief description",
-    "keywords": ["key1", "key2", "key3"],
-    "questions": [
-      {
-        "id": "question_id",
-        "text": "Question text?",
-        "options": ["Option 1", "Option 2", "Option 3", "Option 4"],
-        "impact": "layout_weight|section_priority|component_selection|visualization_style"
-      }
-    ],
-    "layoutHints": {
-      "preferredLayout": "grid|single-column|tabs",
-      "emphasize": "metrics|lists|timeline|balanced"
-    }
-  } (only if needsNewDomain is true)
+  return renderPrompt('analysis', {
+    existingDomains: JSON.stringify(existingDomains, null, 2),
+    keys: dataStructure.keys.join(', '),
+    structure: dataStructure.description,
+    dataProfile: describeData(data)
+  });
 }
 
-IMPORTANT:
-- Generate 2-4 specific questions relevant to this data domain
-- Questions should help determine UI layout and priorities
-- Use clear, actionable question text
-- Provide 3-4 options per question
-- Keywords should be lowercase and match actual data keys`;
+// Token-bounded profile of the data (types, statistics and a small sample) for prompts.
+// LLM_DATA_TOKEN_BUDGET sets the default budget.
+function describeData(data: Record<string, unknown>, tokenBudget?: number): string {
+  return formatProfile(profileData(data, {
+    tokenBudget: tokenBudget ?? (Number(process.env.LLM_DATA_TOKEN_BUDGET) || 2000)
+  }));
 }
 
 // Analyze data structure for the prompt
@@ -193,48 +148,9 @@ function analyzeDataStructure(data: Record<string, any>): {
   return { keys, description };
 }
 
-// Call Google Gemini API
-async function callGeminiAPI(apiKey: string, prompt: string): Promise<AIAnalysisResult> {
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-flash-preview:generateContent?key=${apiKey}`;
-  
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      contents: [{
-        parts: [{
-          text: prompt
-        }]
-      }],
-      generationConfig: {
-        temperature: 0.3,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 2048,
-      }
-    })
-  });
-
-  if (!response.ok) {
-    throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
-  }
-
-  const result = await response.json();
-  const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
-  
-  if (!text) {
-    throw new Error('No response from Gemini API');
-  }
-
-  // Parse the JSON response (strip markdown if present)
-  const jsonMatch = text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('Could not parse JSON from AI response');
-  }
-
-  const parsed = JSON.parse(jsonMatch[0]);
+// Ask the provider to match or create a domain
+async function requestDomainAnalysis(provider: LLMProvider, prompt: RenderedPrompt): Promise<AIAnalysisResult> {
+  const parsed = await provider.generateJSON(prompt.text, undefined, { maxOutputTokens: 2048 }) as RawAIResponse;
   
   // Convert to AIAnalysisResult format
   if (parsed.needsNewDomain && parsed.newDomain) {
@@ -245,29 +161,48 @@ async function callGeminiAPI(apiKey: string, prompt: string): Promise<AIAnalysis
         createdBy: 'ai' as const,
         createdAt: new Date().toISOString()
       },
-      reasoning: parsed.reasoning
+      reasoning: parsed.reasoning,
+      promptVersion: prompt.version
     };
   } else if (parsed.matchedDomainId) {
     const matched = SYSTEM_DOMAINS.find(d => d.id === parsed.matchedDomainId);
     return {
       needsNewDomain: false,
       matchedDomain: matched,
-      reasoning: parsed.reasoning
+      reasoning: parsed.reasoning,
+      promptVersion: prompt.version
     };
   }
 
   throw new Error('Invalid AI response format');
 }
 
+// Rank all domains by keyword match. `match` combines the best ones that clear the threshold.
+function rankLocally(
+  data: Record<string, unknown>,
+  maxDomains: number
+): { match: DomainConfig | null; explanation: string; candidates: DomainCandidate[] } {
+  const ranked = rankAllDomains(data);
+  const selected = selectCandidates(ranked, maxDomains);
+
+  return {
+    match: selected.length > 0 ? combineDomains(selected.map(candidate => candidate.domain)) : null,
+    explanation: selected.map(explainCandidate).join(' + '),
+    candidates: ranked.slice(0, MAX_CANDIDATES)
+  };
+}
+
 // Fallback to local analysis if AI fails
-function fallbackToLocalAnalysis(data: Record<string, any>): AIAnalysisResult {
-  const localMatch = matchDomain(data);
+function fallbackToLocalAnalysis(data: Record<string, any>, maxDomains: number, reason: string = 'AI unavailable'): AIAnalysisResult {
+  const { match, explanation, candidates } = rankLocally(data, maxDomains);
   
-  if (localMatch) {
+  if (match) {
     return {
       needsNewDomain: false,
-      matchedDomain: localMatch,
-      reasoning: 'Local keyword matching (AI unavailable)'
+      matchedDomain: match,
+      reasoning: `Local keyword matching (${reason}): ${explanation}`,
+      fallback: true,
+      candidates
     };
   }
 
@@ -300,18 +235,60 @@ function fallbackToLocalAnalysis(data: Record<string, any>): AIAnalysisResult {
       createdBy: 'ai',
       createdAt: new Date().toISOString()
     },
-    reasoning: 'No match found, generated generic configuration (AI unavailable)'
+    reasoning: `No match found, generated generic configuration (${reason})`,
+    fallback: true,
+    candidates
   };
 }
 
-// Generate UI schema using Gemini with structured output
-export async function generateSchemaWithGemini(
+export interface SchemaGenerationOptions {
+  // Called with each top-level child of the root Container as soon as it has fully
+  // streamed in, along with the root props once those are complete
+  onChild?: (child: ComponentSchema, index: number, rootProps?: Record<string, unknown>) => void;
+  // Token budget for the data profile in the prompt (default LLM_DATA_TOKEN_BUDGET or 2000)
+  tokenBudget?: number;
+  // Nesting levels of the response schema for providers without $ref support
+  // (default LLM_SCHEMA_DEPTH or 4)
+  schemaDepth?: number;
+}
+
+// Stream a generation response, reporting root children as they complete
+async function streamGenerationResponse(
+  provider: LLMProvider,
+  prompt: string,
+  schema: JSONSchema,
+  onChild: NonNullable<SchemaGenerationOptions['onChild']>
+): Promise<RawAIResponse> {
+  let text = '';
+  let emitted = 0;
+
+  for await (const chunk of provider.streamJSON!(prompt, schema)) {
+    text += chunk;
+
+    const partial = parsePartialJSON(text);
+    const root = (partial?.value as RawAIResponse | undefined)?.schema;
+    if (!partial || !root || !Array.isArray(root.children)) continue;
+
+    const rootProps = root.props && isComplete(partial, root.props) ? root.props : undefined;
+    while (emitted < root.children.length && isComplete(partial, root.children[emitted])) {
+      onChild(root.children[emitted], emitted, rootProps);
+      emitted++;
+    }
+  }
+
+  console.log('[AI] Streamed response length:', text.length, 'root children streamed:', emitted);
+  return parseJSONResponse(text) as RawAIResponse;
+}
+
+// Generate UI schema using the LLM provider with structured output
+export async function generateSchemaWithAI(
   data: Record<string, any>,
   analysis: ContextAnalysis,
   answers?: UserAnswers,
-  providedApiKey?: string
-): Promise<AIGenerationResponse> {
-  console.log('[AI] generateSchemaWithGemini called with:', {
+  providedProvider?: LLMProvider | string,
+  options: SchemaGenerationOptions = {}
+): Promise<AIGenerationResult> {
+  console.log('[AI] generateSchemaWithAI called with:', {
     dataKeys: Object.keys(data),
     analysis: {
       detectedContext: analysis.detectedContext,
@@ -322,220 +299,80 @@ export async function generateSchemaWithGemini(
     answers
   });
 
-  const apiKey = getGeminiAPIKey(providedApiKey);
+  const provider = resolveProvider(providedProvider);
 
-  if (!apiKey) {
-    console.error('[AI] No API key found');
-    throw new Error('Gemini API key not found');
+  if (!provider) {
+    console.error('[AI] No LLM provider configured');
+    throw new Error('No LLM provider configured');
   }
 
-  const prompt = buildSchemaGenerationPrompt(data, analysis, answers);
-  console.log('[AI] Generated prompt length:', prompt.length);
-  console.log('[AI] Prompt preview:', prompt.substring(0, 500) + '...');
-
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-flash-preview:generateContent?key=${apiKey.substring(0, 10)}...`;
-  console.log('[AI] Calling Gemini API:', url);
+  const prompt = buildSchemaGenerationPrompt(data, analysis, answers, options.tokenBudget);
+  console.log('[AI] Generated prompt length:', prompt.text.length, 'version:', prompt.version);
+  console.log('[AI] Prompt preview:', prompt.text.substring(0, 500) + '...');
+  console.log('[AI] Calling provider:', provider.name);
 
-  // Try with structured output first, fallback to plain JSON if it fails
-  const tryGeneration = async (useStructuredOutput: boolean) => {
-    console.log(`[AI] tryGeneration called with useStructuredOutput=${useStructuredOutput}`);
-
-    const generationConfig: Record<string, any> = {
-      temperature: 0.3,
-      topK: 40,
-      topP: 0.95,
-      maxOutputTokens: 8192,
-    };
-
-    if (useStructuredOutput) {
-      // Gemini-compliant schema - no additionalProperties, all props explicit
-      const propsSchema = {
-        type: 'object',
-        description: 'Component props',
-        properties: {
-          title: { type: 'string', description: 'Title for Card/Section' },
-          subtitle: { type: 'string', description: 'Subtitle' },
-          label: { type: 'string', description: 'Label for Metric/Button' },
-          value: { type: 'string', description: 'Value or data binding like $data.field' },
-          cols: { type: 'integer', description: 'Number of columns for Container (1-4)' },
-          gap: { type: 'string', description: 'Gap size: sm, md, lg' },
-          colspan: { type: 'integer', description: 'Column span' },
-          type: { type: 'string', description: 'Chart type: bar, line, pie' },
-          data: { type: 'string', description: 'Data binding for charts like $data.field' },
-          items: { type: 'string', description: 'Data binding for lists/tables like $data.arrayField' },
-          rows: { type: 'string', description: 'Data binding for table rows' },
-          columns: { type: 'array', items: { type: 'string' }, description: 'Column names for Table' },
-          icon: { type: 'string', description: 'Icon name' },
-          trend: { type: 'string', description: 'Trend: up, down, neutral, warning' },
-          avatar: { type: 'boolean', description: 'Show avatars in List' },
-          sortable: { type: 'boolean', description: 'Enable sorting in Table' },
-          variant: { type: 'string', description: 'Button variant: default, outline, ghost' },
-          action: { type: 'string', description: 'Action name' },
-          color: { type: 'string', description: 'Color for Badge' },
-          max: { type: 'integer', description: 'Max value for Progress' },
-          collapsible: { type: 'boolean', description: 'Section collapsible' },
-          defaultOpen: { type: 'boolean', description: 'Section default open' }
-        }
-      };
-
-      // Level 3 component (leaf - no children)
-      const componentLevel3 = {
-        type: 'object',
-        properties: {
-          component: { type: 'string', description: 'Component type' },
-          props: propsSchema
-        },
-        required: ['component', 'props']
-      };
-
-      // Level 2 component
-      const componentLevel2 = {
-        type: 'object',
-        properties: {
-          component: { type: 'string', description: 'Component type' },
-          props: propsSchema,
-          children: { type: 'array', items: componentLevel3 }
-        },
-        required: ['component', 'props']
-      };
-
-      // Level 1 component
-      const componentLevel1 = {
-        type: 'object',
-        properties: {
-          component: { type: 'string', description: 'Component type' },
-          props: propsSchema,
-          children: { type: 'array', items: componentLevel2 }
-        },
-        required: ['component', 'props']
-      };
-
-      const geminiSchema = {
-        type: 'object',
-        properties: {
-          needsQuestions: {
-            type: 'boolean',
-            description: 'false for simple data, true for complex data needing clarification'
-          },
-          reasoning: {
-            type: 'string',
-            description: 'Brief explanation'
-          },
-          questions: {
-            type: 'array',
-            items: {
-              type: 'object',
-              properties: {
-                id: { type: 'string' },
-                text: { type: 'string' },
-                options: { type: 'array', items: { type: 'string' } },
-                impact: { type: 'string' }
-              },
-              required: ['id', 'text', 'options', 'impact']
-            }
-          },
-          schema: {
-            type: 'object',
-            properties: {
-              component: { type: 'string', description: 'Root component (Container)' },
-              props: propsSchema,
-              children: { type: 'array', items: componentLevel1 }
-            },
-            required: ['component', 'props']
-          }
-        },
-        required: ['needsQuestions']
-      };
-
-      generationConfig.responseMimeType = 'application/json';
-      generationConfig.responseSchema = geminiSchema;
-      console.log('[AI] Using Gemini schema (no additionalProperties)');
-    }
-
-    const requestBody = {
-      contents: [{
-        parts: [{
-          text: useStructuredOutput ? prompt : prompt + '\n\nRespond with valid JSON only, no markdown code blocks.'
-        }]
-      }],
-      generationConfig
-    };
-
-    console.log('[AI] Request config:', {
-      temperature: generationConfig.temperature,
-      maxOutputTokens: generationConfig.maxOutputTokens,
-      hasResponseSchema: !!generationConfig.responseSchema,
-      responseMimeType: generationConfig.responseMimeType
-    });
-
-    if (useStructuredOutput) {
-      console.log('[AI] Full responseSchema:', JSON.stringify(generationConfig.responseSchema, null, 2));
-    }
-
-    const fullUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-flash-preview:generateContent?key=${apiKey}`;
-
-    const response = await fetch(fullUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody)
-    });
-
-    console.log('[AI] Response status:', response.status, response.statusText);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('[AI] Gemini API error response:', errorText);
-      throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
-    }
-
-    const result = await response.json();
+  return requestGenerationResponse(provider, prompt, options);
+}
 
-    console.log('[AI] Response structure:', {
-      hasCandidates: !!result.candidates,
-      candidatesLength: result.candidates?.length,
-      finishReason: result.candidates?.[0]?.finishReason,
-      safetyRatings: result.candidates?.[0]?.safetyRatings
-    });
+// Ask the model to fix the problems found in a schema it generated earlier. Takes the options
+// of the original generation so the prompt and response schema match it; corrections don't stream.
+export async function generateCorrectionWithAI(
+  previous: ComponentSchema,
+  errors: string[],
+  data: Record<string, unknown>,
+  analysis: ContextAnalysis,
+  answers?: UserAnswers,
+  providedProvider?: LLMProvider | string,
+  options: SchemaGenerationOptions = {}
+): Promise<AIGenerationResult> {
+  const provider = resolveProvider(providedProvider);
 
-    const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
+  if (!provider) {
+    throw new Error('No LLM provider configured');
+  }
 
-    if (!text) {
-      console.error('[AI] No text in response:', JSON.stringify(result, null, 2).substring(0, 1000));
-      throw new Error('No response from Gemini API');
-    }
+  const prompt = renderPrompt('correction', {
+    generationPrompt: buildSchemaGenerationPrompt(data, analysis, answers, options.tokenBudget).text,
+    previousOutput: JSON.stringify(previous, null, 2),
+    errors: errors.map(error => `- ${error}`).join('\n')
+  }, analysis.matchedDomain);
+  console.log('[AI] Correction prompt length:', prompt.text.length, 'errors:', errors.length);
 
-    console.log('[AI] Raw response text length:', text.length);
-    console.log('[AI] Raw response (full):', text);
+  return requestGenerationResponse(provider, prompt, { schemaDepth: options.schemaDepth });
+}
 
-    return text;
-  };
+// Request a generation response and validate it against the loose response schema
+async function requestGenerationResponse(
+  provider: LLMProvider,
+  prompt: RenderedPrompt,
+  options: SchemaGenerationOptions = {}
+): Promise<AIGenerationResult> {
+  const features = provider.schemaFeatures ?? RESTRICTED_SCHEMA_FEATURES;
+  const responseSchema = buildGenerationResponseSchema(features, options.schemaDepth ?? schemaDepthFromEnv());
+  // Emulated unions ({ "asArray": [...] }) only appear when the schema had to use them
+  const unwrap = <T>(value: T): T => (features.unions ? value : unwrapEmulatedUnions(value) as T);
 
   try {
-    // First try with structured output
-    let text: string;
+    // First try with structured output, fall back to plain JSON if it fails
+    let parsed: RawAIResponse;
     try {
-      console.log('[AI] Attempting structured output generation...');
-      text = await tryGeneration(true);
+      console.log('[AI] Attempting structured output generation...', features);
+      const onChild = options.onChild;
+      parsed = onChild && provider.streamJSON
+        ? await streamGenerationResponse(provider, prompt.text, responseSchema,
+            (child, index, rootProps) => onChild(unwrap(child), index, unwrap(rootProps)))
+        : await provider.generateJSON(prompt.text, responseSchema) as RawAIResponse;
+      if (parsed.schema) parsed.schema = unwrap(parsed.schema);
       console.log('[AI] Structured output succeeded');
     } catch (structuredError) {
+      // Retrying without the schema only helps if the request was rejected (the schema
+      // may be the problem) - not after timeouts, rate limits or an open circuit
+      if (structuredError instanceof LLMError && structuredError.reason !== 'rejected') throw structuredError;
       console.warn('[AI] Structured output failed, trying plain JSON:', structuredError);
-      text = await tryGeneration(false);
+      parsed = await provider.generateJSON(prompt.text + '\n\nRespond with valid JSON only, no markdown code blocks.') as RawAIResponse;
       console.log('[AI] Plain JSON generation succeeded');
     }
 
-    // Parse JSON (strip markdown if present)
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.error('[AI] Could not extract JSON from response:', text.substring(0, 500));
-      throw new Error('Could not parse JSON from AI response');
-    }
-
-    console.log('[AI] Extracted JSON length:', jsonMatch[0].length);
-
-    const parsed = JSON.parse(jsonMatch[0]);
-
     console.log('[AI] Parsed response:', {
       needsQuestions: parsed.needsQuestions,
       hasReasoning: !!parsed.reasoning,
@@ -556,141 +393,149 @@ export async function generateSchemaWithGemini(
       };
     }
 
-    // Use loose schema for validation - accepts any depth of nesting
-    const validated = AIGenerationResponseLooseSchema.parse(parsed);
-    console.log('[AI] Validation passed with loose schema');
+    // Validate against the loose schema. Props that don't match their component are left to
+    // the repair step and the correction loop; only a malformed envelope is an error.
+    const validation = AIGenerationResponseLooseSchema.safeParse(parsed);
+    if (validation.success) {
+      console.log('[AI] Validation passed with loose schema');
+    } else {
+      const envelopeIssues = validation.error.issues.filter(issue => issue.path[0] !== 'schema');
+      if (envelopeIssues.length > 0) throw validation.error;
+      console.warn('[AI] Schema does not match the component props, leaving it to repair:',
+        validation.error.issues.slice(0, 5).map(issue => `${issue.path.join('.')}: ${issue.message}`));
+    }
 
-    // Cast to full type (the loose schema is more permissive)
-    return validated as AIGenerationResponse;
+    // The raw response, so unknown props reach repair and show up in its log
+    return { ...(parsed as AIGenerationResponse), promptVersion: prompt.version };
   } catch (error) {
-    console.error('[AI] Gemini schema generation failed:', error);
+    console.error('[AI] Schema generation failed:', error);
     throw error;
   }
 }
 
-// Build the prompt for schema generation
-function buildSchemaGenerationPrompt(
-  data: Record<string, any>,
-  analysis: ContextAnalysis,
-  answers?: UserAnswers
-): string {
-  const dataStructure = analyzeDataStructure(data);
-  const componentSpecs = Object.entries(COMPONENT_SPECS).map(([name, spec]) => ({
+// Unrolled schema depth from LLM_SCHEMA_DEPTH
+function schemaDepthFromEnv(): number {
+  const depth = Number(process.env.LLM_SCHEMA_DEPTH);
+  return Number.isInteger(depth) && depth > 0 ? depth : DEFAULT_SCHEMA_DEPTH;
+}
+
+// Component catalog for prompts, derived from the component registry
+function buildComponentCatalog() {
+  return Object.entries(COMPONENT_SPECS).map(([name, spec]) => ({
     component: name,
+    description: spec.description,
     required: spec.required,
     optional: spec.props.filter(p => !spec.required.includes(p))
   }));
+}
 
-  let prompt = `You are an expert UI generator. Generate a dashboard UI schema from the provided data.
+// Build the prompt for schema generation, using the matched domain's override if it has one
+function buildSchemaGenerationPrompt(
+  data: Record<string, any>,
+  analysis: ContextAnalysis,
+  answers?: UserAnswers,
+  tokenBudget?: number
+): RenderedPrompt {
+  const dataStructure = analyzeDataStructure(data);
+  const componentSpecs = buildComponentCatalog();
+  const domain = analysis.matchedDomain;
+
+  const context = [
+    `- Detected Context: ${analysis.detectedContext}`,
+    `- Data Types: ${analysis.dataTypes.join(', ')}`,
+    `- Entities: ${analysis.entities.join(', ')}`,
+    `- Suggested Layout: ${analysis.suggestedLayout}`,
+    domain ? `- Domain: ${domain.name}` : ''
+  ].join('\n');
+
+  const hasAnswers = !!answers && Object.keys(answers).length > 0;
+  const task = hasAnswers
+    ? renderSections('generation', ['preferences', answers.chart_preference === 'Charts/graphs' ? 'charts' : 'metrics', 'rules'], {
+        preferences: Object.entries(answers).map(([key, value]) => `- ${key}: ${value}`).join('\n')
+      }, domain)
+    : renderSections('generation', ['decide'], {}, domain);
+
+  return renderPrompt('generation', {
+    componentCount: componentSpecs.length,
+    components: JSON.stringify(componentSpecs, null, 2),
+    keys: dataStructure.keys.join(', '),
+    structure: dataStructure.description,
+    dataProfile: describeData(data, tokenBudget),
+    context,
+    task
+  }, domain);
+}
 
-AVAILABLE COMPONENTS (you must use ONLY these 12 components):
-${JSON.stringify(componentSpecs, null, 2)}
+// Ask the LLM provider for a list of diffs that evolve an existing schema
+export async function generateEvolutionWithAI(
+  schema: ComponentSchema,
+  data: Record<string, any>,
+  instruction: string,
+  providedProvider?: LLMProvider | string
+): Promise<AIEvolutionResult> {
+  const provider = resolveProvider(providedProvider);
 
-DATA TO VISUALIZE:
-Keys: ${dataStructure.keys.join(', ')}
-Structure: ${dataStructure.description}
-Sample: ${JSON.stringify(data, null, 2).substring(0, 500)}...
+  if (!provider) {
+    throw new Error('No LLM provider configured');
+  }
 
-CONTEXT ANALYSIS:
-- Detected Context: ${analysis.detectedContext}
-- Data Types: ${analysis.dataTypes.join(', ')}
-- Entities: ${analysis.entities.join(', ')}
-- Suggested Layout: ${analysis.suggestedLayout}
-${analysis.matchedDomain ? `- Domain: ${analysis.matchedDomain.name}` : ''}
+  const prompt = buildEvolutionPrompt(schema, data, instruction);
+  console.log('[AI] Evolution prompt length:', prompt.text.length, 'version:', prompt.version);
 
-`;
+  const parsed = await provider.generateJSON(prompt.text, undefined, { temperature: 0.2, maxOutputTokens: 4096 });
+  const validated = parseEvolutionResponse(parsed);
+  console.log('[AI] Evolution diffs received:', validated.diffs.length);
 
-  if (answers && Object.keys(answers).length > 0) {
-    prompt += `USER PREFERENCES:
-${Object.entries(answers).map(([key, value]) => `- ${key}: ${value}`).join('\n')}
+  return { ...validated, promptVersion: prompt.version };
+}
 
-TASK: Generate the complete UI schema based on the data and user preferences.
-Set needsQuestions to FALSE and provide the schema.
+// Malformed responses are thrown as is. A diff whose value isn't a valid component is rejected
+// like a diff that doesn't apply (PatchError), so the caller can report why.
+function parseEvolutionResponse(parsed: unknown): AIEvolutionResponse {
+  const validation = AIEvolutionResponseSchema.safeParse(parsed);
+  if (validation.success) return validation.data;
 
-`;
+  const { issues } = validation.error;
+  if (!issues.every(issue => issue.path[0] === 'diffs' && issue.path[2] === 'value')) {
+    throw validation.error;
+  }
 
-    // Add specific instructions for chart preference
-    if (answers.chart_preference === 'Charts/graphs') {
-      prompt += `CHART PREFERENCE: User wants charts/graphs for nested data.
+  const index = issues[0].path[1] as number;
+  const errors = issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+  const diff = (parsed as { diffs: EvolutionDiff[] }).diffs[index];
+  throw new PatchError(`Diff ${index} has an invalid component`, diff, 'validation_failed', errors);
+}
 
-RULES FOR CHARTS:
-- For nested objects with numeric values (like { TypeScript: 65, Python: 30 }), 
-  create Chart components with type "pie" or "bar"
-- Point to the SPECIFIC nested path containing numbers, NOT the parent object
-  - Good: "$data.healthcare.hospitalOverview" (flat object with numbers)
-  - Bad: "$data.healthcare" (complex nested object)
-- Use "pie" for percentage/distribution data, "bar" for comparisons
-- The Chart component can now handle nested objects, so it's safe to use
+// Outline each node with its path so the model can address it precisely
+function outlineSchema(schema: ComponentSchema, path: string = '', depth: number = 0): string[] {
+  const label = schema.props?.title || schema.props?.label;
+  const lines = [`${'  '.repeat(depth)}${path || '/'} ${schema.component}${label ? ` "${label}"` : ''}`];
 
-`;
-    } else {
-      // Default behavior when not asking for charts
-      prompt += `IMPORTANT RULES FOR METRICS:
-- When you find a nested object where ALL values are numbers (like gymMetrics: {totalMembers: 3456, activeMembers: 2789}), 
-  create INDIVIDUAL Metric components for EACH number inside
-- Use full dot notation paths: "$data.gymMetrics.totalMembers", "$data.gymMetrics.activeMembers", etc.
-- DO NOT create a Chart component for objects containing only numbers - use Metric components instead
-- Wrap metrics in a Card with a Container inside to display them in a grid
-
-`;
-    }
+  schema.children?.forEach((child, index) => {
+    lines.push(...outlineSchema(child, `${path}/children/${index}`, depth + 1));
+  });
 
-    prompt += `GENERAL RULES:
-- IMPORTANT: The schema field must be a SINGLE root object (Container component), NOT an array
-- Use data bindings like "$data.fieldName" for dynamic values
-- Container component should be the root with cols and gap props
-- Wrap content in Card components with titles
-- For arrays, use List or Table components with "$data.arrayName" as items/rows
-- Follow the component prop requirements strictly
-- Create a well-structured, hierarchical layout
-`;
-  } else {
-    prompt += `TASK: Analyze the data complexity and decide:
-
-1. If data is SIMPLE (1-3 metrics, 1-2 lists, clear structure):
-   - Set needsQuestions to FALSE
-   - Generate a complete UI schema directly
-   - Use sensible defaults for layout
-
-2. If data is COMPLEX (5+ entities, nested structures, ambiguous priorities):
-   - Set needsQuestions to TRUE
-   - Generate 2-4 relevant questions to clarify user preferences
-   - Do NOT generate schema yet
-
-IMPORTANT RULES FOR METRICS (default behavior):
-- When you find a nested object where ALL values are numbers (like gymMetrics: {totalMembers: 3456, activeMembers: 2789}), 
-  create INDIVIDUAL Metric components for EACH number inside
-- Use full dot notation paths: "$data.gymMetrics.totalMembers", "$data.gymMetrics.activeMembers", etc.
-- Wrap metrics in a Card with a Container inside to display them in a grid
-- The Chart component can handle nested objects if needed for visualization
-
-GENERAL RULES:
-- IMPORTANT: The schema field must be a SINGLE root object (Container component), NOT an array
-- Use data bindings like "$data.fieldName" for dynamic values
-- Container component should be the root with cols and gap props
-- Wrap content in Card components with titles
-- For arrays, use List or Table components with "$data.arrayName" as items/rows
-- Follow the component prop requirements strictly
-- Create a well-structured, hierarchical layout
-
-EXAMPLE for nested metrics:
-If data has: { "gymMetrics": { "totalMembers": 3456, "activeMembers": 2789 } }
-Generate:
-{
-  "component": "Card",
-  "props": { "title": "Gym Metrics", "colspan": 3 },
-  "children": [{
-    "component": "Container",
-    "props": { "cols": 4, "gap": "sm" },
-    "children": [
-      { "component": "Metric", "props": { "label": "Total Members", "value": "$data.gymMetrics.totalMembers", "icon": "users" }},
-      { "component": "Metric", "props": { "label": "Active Members", "value": "$data.gymMetrics.activeMembers", "icon": "users" }}
-    ]
-  }]
+  return lines;
 }
-`;
-  }
 
-  return prompt;
+// Build the prompt for evolving an existing schema (domain overrides apply to the
+// domain the data matches by keywords)
+function buildEvolutionPrompt(
+  schema: ComponentSchema,
+  data: Record<string, any>,
+  instruction: string
+): RenderedPrompt {
+  const dataStructure = analyzeDataStructure(data);
+  const componentSpecs = buildComponentCatalog();
+
+  return renderPrompt('evolution', {
+    componentCount: componentSpecs.length,
+    components: JSON.stringify(componentSpecs, null, 2),
+    keys: dataStructure.keys.join(', '),
+    structure: dataStructure.description,
+    dataProfile: describeData(data),
+    outline: outlineSchema(schema).join('\n'),
+    schema: JSON.stringify(schema, null, 2),
+    instruction
+  }, matchDomain(data) || undefined);
 }
-
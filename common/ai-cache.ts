@@ -0,0 +1,200 @@
+// AI Response Cache - Reuses analysis and generation results for data of the same shape
+// Entries are keyed on a structural fingerprint of the data (key names and value types,
+// not values) plus the answers, the model, the prompt and domain versions, and persisted next to
+// domains.json. Updates take the same lock and atomic write as domains.json (file-lock.ts),
+// so concurrent requests don't lose each other's entries.
+// Only import from route handlers: this module uses the filesystem.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { analyzeJSONWithAI, resolveProvider, AIAnalysisResult, AnalysisOptions } from './ai-analyzer';
+import { generateUIWithAI, GenerateUIOptions, UserAnswers } from './generator';
+import { ContextAnalysis } from './analyzer';
+import type { LLMProvider } from './llm';
+import { promptVersion } from './prompts';
+import { domainRevision, getAllDomains } from './domains';
+import { withFileLock, writeFileAtomic } from './file-lock';
+
+export const CACHE_FILE_PATH = path.join(process.cwd(), 'common', 'ai-cache.json');
+
+// Entries expire after a day unless AI_CACHE_TTL_MS says otherwise
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+type CacheKind = 'analysis' | 'generation';
+
+interface CacheEntry {
+  kind: CacheKind;
+  fingerprint: string;  // Structural fingerprint of the data
+  model: string;        // Provider name, e.g. "gemini:gemini-3-flash-preview"
+  createdAt: string;
+  expiresAt: string;
+  value: unknown;
+}
+
+export interface CacheOptions {
+  ttlMs?: number;     // Lifetime of new entries
+  refresh?: boolean;  // Skip the lookup (the fresh result is still stored)
+}
+
+type GenerationResult = Awaited<ReturnType<typeof generateUIWithAI>>;
+
+// Shape of a value: key names and value types, independent of the values themselves.
+// Array elements are merged, so a refreshed export with more or fewer rows has the same shape.
+export function describeShape(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) {
+    const shapes = Array.from(new Set(value.map(describeShape))).sort();
+    return `[${shapes.join('|')}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.keys(value).sort().map(key =>
+      `${JSON.stringify(key)}:${describeShape((value as Record<string, unknown>)[key])}`
+    );
+    return `{${entries.join(',')}}`;
+  }
+  return typeof value;
+}
+
+export function fingerprintData(data: unknown): string {
+  return hash(describeShape(data)).substring(0, 16);
+}
+
+// analyzeJSONWithAI, answered from the cache when data of the same shape was analysed before
+export async function cachedAnalyzeJSONWithAI(
+  data: Record<string, unknown>,
+  providedProvider?: LLMProvider | string,
+  options: CacheOptions & AnalysisOptions = {}
+): Promise<AIAnalysisResult & { cached?: boolean }> {
+  const provider = resolveProvider(providedProvider);
+  // Without a provider the result is the local fallback - cheap and not worth caching
+  if (!provider) return analyzeJSONWithAI(data, undefined, options);
+
+  const fingerprint = fingerprintData(data);
+  const key = cacheKey('analysis', fingerprint, provider.name, {
+    prompt: promptVersion('analysis'),
+    // Editing, deleting or rolling back any domain can change the match
+    domains: getAllDomains().map(domainRevision),
+    maxDomains: options.maxDomains && options.maxDomains > 1 ? options.maxDomains : undefined,
+  });
+
+  if (!options.refresh) {
+    const hit = await readEntry<AIAnalysisResult>(key);
+    if (hit) {
+      console.log('[Cache] Analysis hit:', fingerprint);
+      return { ...hit, cached: true };
+    }
+  }
+
+  const result = await analyzeJSONWithAI(data, provider, options);
+  if (!result.fallback) {
+    await writeEntry(key, { kind: 'analysis', fingerprint, model: provider.name, value: result }, options);
+  }
+  return result;
+}
+
+// generateUIWithAI, answered from the cache when the same shape, context and answers
+// were generated before. A cached result is returned whole, so onChild isn't called.
+export async function cachedGenerateUIWithAI(
+  data: Record<string, unknown>,
+  analysis: ContextAnalysis,
+  answers?: UserAnswers,
+  providedProvider?: LLMProvider | string,
+  options: GenerateUIOptions & CacheOptions = {}
+): Promise<GenerationResult & { cached?: boolean }> {
+  const provider = resolveProvider(providedProvider);
+  if (!provider) return generateUIWithAI(data, analysis, answers, undefined, options);
+
+  const fingerprint = fingerprintData(data);
+  const key = cacheKey('generation', fingerprint, provider.name, {
+    context: analysis.detectedContext,
+    domain: analysis.matchedDomain && domainRevision(analysis.matchedDomain),
+    prompt: promptVersion('generation', analysis.matchedDomain),
+    answers: Object.entries(answers || {}).sort(([a], [b]) => a.localeCompare(b)),
+  });
+
+  if (!options.refresh) {
+    const hit = await readEntry<GenerationResult>(key);
+    if (hit) {
+      console.log('[Cache] Generation hit:', fingerprint);
+      return { ...hit, cached: true };
+    }
+  }
+
+  const result = await generateUIWithAI(data, analysis, answers, provider, options);
+  if (!result.fallback) {
+    await writeEntry(key, { kind: 'generation', fingerprint, model: provider.name, value: result }, options);
+  }
+  return result;
+}
+
+// Remove cached entries - all of them, or only those for data with this fingerprint.
+// Returns the number of entries removed.
+export async function invalidateCache(fingerprint?: string): Promise<number> {
+  let removed = 0;
+  await updateCache(entries => {
+    const keys = Object.keys(entries).filter(key => !fingerprint || entries[key].fingerprint === fingerprint);
+    keys.forEach(key => delete entries[key]);
+    removed = keys.length;
+    return removed > 0;
+  });
+  return removed;
+}
+
+function cacheKey(kind: CacheKind, fingerprint: string, model: string, extra?: unknown): string {
+  return hash(JSON.stringify([kind, fingerprint, model, extra ?? null]));
+}
+
+function hash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+async function readEntry<T>(key: string): Promise<T | null> {
+  const entry = (await readCache())[key];
+  if (!entry || Date.parse(entry.expiresAt) <= Date.now()) return null;
+  return entry.value as T;
+}
+
+async function writeEntry(
+  key: string,
+  entry: Omit<CacheEntry, 'createdAt' | 'expiresAt'>,
+  { ttlMs = Number(process.env.AI_CACHE_TTL_MS) || DEFAULT_TTL_MS }: CacheOptions
+): Promise<void> {
+  const now = Date.now();
+  await updateCache(entries => {
+    // Drop expired entries while we're rewriting the file anyway
+    for (const [existingKey, existing] of Object.entries(entries)) {
+      if (Date.parse(existing.expiresAt) <= now) delete entries[existingKey];
+    }
+
+    entries[key] = {
+      ...entry,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString(),
+    };
+    return true;
+  });
+}
+
+// Read the cache file (empty if it doesn't exist or is invalid)
+async function readCache(): Promise<Record<string, CacheEntry>> {
+  try {
+    const fileContent = await fs.readFile(CACHE_FILE_PATH, 'utf-8');
+    return JSON.parse(fileContent).entries || {};
+  } catch {
+    return {};
+  }
+}
+
+// Read-modify-write under the lock. `update` returns whether it changed anything worth writing.
+async function updateCache(update: (entries: Record<string, CacheEntry>) => boolean): Promise<void> {
+  try {
+    await withFileLock(CACHE_FILE_PATH, async () => {
+      const entries = await readCache();
+      if (update(entries)) await writeFileAtomic(CACHE_FILE_PATH, JSON.stringify({ entries }, null, 2));
+    });
+  } catch (error) {
+    // A cache that can't be written only costs another model call
+    console.error('Failed to write ai-cache.json:', error);
+  }
+}
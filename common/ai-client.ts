@@ -0,0 +1,97 @@
+// AI Client - Browser-side calls to the AI route handlers
+// The LLM runs on the server with a server-only key. A key is only sent
+// when the user explicitly enters their own.
+
+import type { AIAnalysisResult } from './ai-analyzer';
+import type { ComponentSchema } from './components';
+import type { ContextAnalysis } from './analyzer';
+import type { generateUIWithAI, evolveUIWithAI, UIState, UserAnswers } from './generator';
+
+type GenerationResult = Awaited<ReturnType<typeof generateUIWithAI>>;
+type EvolutionResult = Awaited<ReturnType<typeof evolveUIWithAI>>;
+
+// Events sent by /api/generate/stream, one JSON object per line
+export type GenerationStreamEvent =
+  | { type: 'child'; index: number; schema: ComponentSchema; rootProps?: Record<string, unknown> }
+  | { type: 'done'; result: GenerationResult }
+  | { type: 'error'; error: string };
+
+async function postJSON<T>(url: string, body: Record<string, unknown>): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `Request failed: ${response.status} ${response.statusText}`);
+  }
+  return result as T;
+}
+
+// Match the data to a domain or get a suggested new one
+export function requestAnalysis(data: Record<string, unknown>, apiKey?: string): Promise<AIAnalysisResult> {
+  return postJSON('/api/analyze', { data, apiKey });
+}
+
+// Generate a schema, or questions when the model needs more input
+export function requestGeneration(
+  data: Record<string, unknown>,
+  analysis: ContextAnalysis,
+  answers?: UserAnswers,
+  apiKey?: string
+): Promise<GenerationResult> {
+  return postJSON('/api/generate', { data, analysis, answers, apiKey });
+}
+
+// Generate with streaming: onChild receives each top-level section as soon as it's complete
+export async function requestGenerationStream(
+  data: Record<string, unknown>,
+  analysis: ContextAnalysis,
+  answers: UserAnswers | undefined,
+  apiKey: string | undefined,
+  onChild: (schema: ComponentSchema, index: number, rootProps?: Record<string, unknown>) => void
+): Promise<GenerationResult> {
+  const response = await fetch('/api/generate/stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ data, analysis, answers, apiKey })
+  });
+
+  if (!response.ok || !response.body) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || `Request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop()!;
+
+    for (const line of lines.filter(line => line.trim())) {
+      const event = JSON.parse(line) as GenerationStreamEvent;
+      if (event.type === 'child') onChild(event.schema, event.index, event.rootProps);
+      if (event.type === 'done') return event.result;
+      if (event.type === 'error') throw new Error(event.error);
+    }
+
+    if (done) throw new Error('Generation stream ended without a result');
+  }
+}
+
+// Evolve the current state from a natural-language instruction
+export function requestEvolution(
+  state: UIState,
+  data: Record<string, unknown>,
+  instruction: string,
+  apiKey?: string
+): Promise<EvolutionResult> {
+  return postJSON('/api/evolve', { state, data, instruction, apiKey });
+}
@@ -1,6 +1,6 @@
 // Context Analyzer - Evaluates input and generates questions
 
-import { DomainConfig, matchDomain } from './domains';
+import { DomainConfig, matchDomains, resolveDomain, combineDomains } from './domains';
 
 export interface InputContext {
   type?: string; // Optional - will be auto-detected if not provided
@@ -195,10 +195,12 @@ function generateQuestions(contextType: string, dataTypes: string[], entities: s
 }
 
 // Main analyzer function - now accepts raw data without type field
-// Can also accept a DomainConfig to use custom domain settings
+// Can also accept a DomainConfig to use custom domain settings. With maxDomains above 1, data that
+// matches several domains gets up to that many of them combined.
 export function analyzeContext(
   input: Record<string, any> | InputContext,
-  customDomain?: DomainConfig
+  customDomain?: DomainConfig,
+  maxDomains: number = 1
 ): ContextAnalysis {
   // Handle both formats: raw data object or InputContext with type field
   let data: Record<string, any>;
@@ -215,8 +217,9 @@ export function analyzeContext(
 
   const dataTypes = detectDataTypes(data);
   
-  // Try to match with a domain config if not provided
-  const domain = customDomain || matchDomain(data);
+  // Try to match with domain configs if not provided
+  const matched = customDomain ? [resolveDomain(customDomain)] : matchDomains(data, maxDomains);
+  const domain = matched.length > 0 ? combineDomains(matched) : null;
   
   // Use domain context or fallback to detection
   const detectedContext = domain?.id || providedType || detectContextType(data);
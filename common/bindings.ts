@@ -0,0 +1,142 @@
+// Binding Validation - Checks $data bindings in a schema against the input data
+// Reports bindings that don't resolve and bindings whose value has the wrong shape
+// for the prop (e.g. a Table bound to a non-array)
+
+import { ComponentSchema, ComponentType } from './components';
+import { extractBindings, getNestedValue } from '../lib/dataBinding';
+
+export interface BindingIssue {
+  path: string;        // Prop path, e.g. "children[2].props.rows"
+  binding: string;     // e.g. "$data.contributers"
+  kind: 'dangling' | 'shape_mismatch';
+  message: string;
+}
+
+export interface BindingValidationResult {
+  valid: boolean;
+  checked: number;     // Number of $data bindings found
+  issues: BindingIssue[];
+}
+
+type ValueShape = 'array' | 'object' | 'chartable' | 'scalar' | 'number';
+
+// Shape each bound prop must resolve to (props not listed accept anything)
+const EXPECTED_SHAPES: Partial<Record<ComponentType, Record<string, ValueShape>>> = {
+  Card: { title: 'scalar', subtitle: 'scalar' },
+  Section: { title: 'scalar' },
+  Metric: { label: 'scalar', value: 'scalar' },
+  Table: { rows: 'array' },
+  List: { items: 'array' },
+  Chart: { data: 'chartable' },
+  Button: { label: 'scalar' },
+  Filter: { options: 'array' },
+  Tabs: { items: 'array' },
+  Badge: { label: 'scalar' },
+  Progress: { value: 'number', max: 'number', label: 'scalar' },
+};
+
+const SHAPE_DESCRIPTIONS: Record<ValueShape, string> = {
+  array: 'an array',
+  object: 'an object',
+  chartable: 'an object or array',
+  scalar: 'a string or number',
+  number: 'a number',
+};
+
+// Validate every $data binding in the schema against the data
+export function validateBindings(
+  schema: ComponentSchema,
+  data: Record<string, unknown>,
+  path: string = ''
+): BindingValidationResult {
+  const issues: BindingIssue[] = [];
+  let checked = 0;
+  const propsPath = path ? `${path}.props` : 'props';
+  const shapes = EXPECTED_SHAPES[schema.component] || {};
+
+  for (const [prop, value] of Object.entries(schema.props || {})) {
+    for (const { valuePath, text } of collectStrings(value, `${propsPath}.${prop}`)) {
+      const bindings = extractBindings(text).filter(binding => binding.startsWith('$data.'));
+
+      for (const binding of bindings) {
+        checked++;
+        const resolved = getNestedValue(data, binding.substring(6));
+
+        if (resolved === undefined) {
+          issues.push({
+            path: valuePath,
+            binding,
+            kind: 'dangling',
+            message: `${binding} does not exist in the data${suggestKey(binding, data)}`
+          });
+          continue;
+        }
+
+        // Shapes only apply when the whole prop is a single binding
+        const expected = valuePath === `${propsPath}.${prop}` && text === binding ? shapes[prop] : undefined;
+        if (expected && !matchesShape(resolved, expected)) {
+          issues.push({
+            path: valuePath,
+            binding,
+            kind: 'shape_mismatch',
+            message: `${schema.component}.${prop} expects ${SHAPE_DESCRIPTIONS[expected]} but ${binding} is ${describeValue(resolved)}`
+          });
+        }
+      }
+    }
+  }
+
+  schema.children?.forEach((child, index) => {
+    const childResult = validateBindings(child, data, `${path ? `${path}.` : ''}children[${index}]`);
+    checked += childResult.checked;
+    issues.push(...childResult.issues);
+  });
+
+  return { valid: issues.length === 0, checked, issues };
+}
+
+// All string values inside a prop (props can hold arrays and objects)
+function collectStrings(value: unknown, valuePath: string): Array<{ valuePath: string; text: string }> {
+  if (typeof value === 'string') return [{ valuePath, text: value }];
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectStrings(item, `${valuePath}[${index}]`));
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => collectStrings(item, `${valuePath}.${key}`));
+  }
+  return [];
+}
+
+function matchesShape(value: unknown, shape: ValueShape): boolean {
+  switch (shape) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'chartable':
+      return typeof value === 'object' && value !== null;
+    case 'scalar':
+      return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+    case 'number':
+      return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  return `a ${typeof value}`;
+}
+
+// Point out a sibling key with the same normalized name, e.g. a typo or different casing
+function suggestKey(binding: string, data: Record<string, unknown>): string {
+  const segments = binding.substring(6).split('.');
+  const last = segments.pop()!;
+  const parent = segments.length > 0 ? getNestedValue(data, segments.join('.')) : data;
+  if (!parent || typeof parent !== 'object') return '';
+
+  const normalize = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const match = Object.keys(parent).find(key => normalize(key) === normalize(last));
+  return match ? ` (did you mean $data.${[...segments, match].join('.')}?)` : '';
+}
@@ -1,10 +1,171 @@
-// Component Library Definition - 12 constrained components
+// Component Library Definition - 12 built-in constrained components plus registered ones
+// COMPONENT_REGISTRY is the single source of truth: component types, specs, props
+// validation and the structured output schemas are derived from it. The React renderers
+// live in components/registry-renderers.tsx, so server code never imports client UI.
+// Custom components are registered in common/custom-components.ts.
 
-export type ComponentType =
-  | 'Container' | 'Card' | 'Section'
-  | 'Metric' | 'Table' | 'List' | 'Chart'
-  | 'Button' | 'Filter' | 'Tabs'
-  | 'Badge' | 'Progress';
+import { z } from 'zod';
+import type * as React from 'react';
+
+// Props schemas
+export const ContainerPropsSchema = z.object({
+  cols: z.number().min(1).max(4).optional().describe('Number of columns in grid layout (1-4)'),
+  gap: z.enum(['sm', 'md', 'lg']).optional().describe('Gap size between items'),
+  colspan: z.number().optional().describe('How many columns this container spans')
+});
+
+export const CardPropsSchema = z.object({
+  title: z.string().describe('Card title (required)'),
+  subtitle: z.string().optional().describe('Optional subtitle'),
+  actions: z.array(z.string()).optional().describe('Optional action buttons'),
+  colspan: z.number().optional().describe('How many columns this card spans')
+});
+
+export const SectionPropsSchema = z.object({
+  title: z.string().describe('Section title (required)'),
+  collapsible: z.boolean().optional().describe('Whether section can be collapsed'),
+  defaultOpen: z.boolean().optional().describe('Whether section is open by default')
+});
+
+export const MetricPropsSchema = z.object({
+  label: z.string().describe('Metric label (required)'),
+  value: z.union([z.string(), z.number()]).describe('Metric value - can be number or data binding like $data.revenue'),
+  trend: z.enum(['up', 'down', 'warning', 'neutral']).optional().describe('Trend indicator'),
+  icon: z.string().optional().describe('Icon name')
+});
+
+export const TablePropsSchema = z.object({
+  columns: z.array(z.string()).describe('Array of column names (required)'),
+  rows: z.union([
+    z.array(z.record(z.string(), z.any())),
+    z.string()
+  ]).describe('Array of row objects or data binding like $data.products'),
+  sortable: z.boolean().optional().describe('Whether table is sortable')
+});
+
+export const ListPropsSchema = z.object({
+  items: z.union([
+    z.array(z.record(z.string(), z.any())),
+    z.string()
+  ]).describe('Array of items or data binding like $data.orders'),
+  avatar: z.boolean().optional().describe('Whether to show avatars'),
+  template: z.object({
+    primary: z.string().describe('Field name for primary text'),
+    secondary: z.string().optional().describe('Field name for secondary text')
+  }).optional().describe('Template for displaying list items'),
+  actions: z.array(z.string()).optional().describe('Available actions like view, edit, delete')
+});
+
+export const ChartPropsSchema = z.object({
+  type: z.enum(['bar', 'line', 'pie']).describe('Chart type (required)'),
+  data: z.union([
+    z.record(z.string(), z.number()),
+    z.array(z.object({
+      label: z.string(),
+      value: z.number()
+    })),
+    z.string()
+  ]).describe('Chart data object or data binding like $data.traffic_sources')
+});
+
+export const ButtonPropsSchema = z.object({
+  label: z.string().describe('Button text (required)'),
+  variant: z.enum(['default', 'outline', 'ghost']).optional().describe('Button style variant'),
+  action: z.string().optional().describe('Action to perform on click')
+});
+
+export const FilterPropsSchema = z.object({
+  options: z.union([
+    z.array(z.string()),
+    z.array(z.object({
+      label: z.string(),
+      value: z.string()
+    }))
+  ]).describe('Filter options (required)'),
+  multi: z.boolean().optional().describe('Allow multiple selections'),
+  target: z.string().optional().describe('Target data field to filter'),
+  placeholder: z.string().optional().describe('Placeholder text')
+});
+
+export const TabsPropsSchema = z.object({
+  items: z.array(z.string()).describe('Array of tab names (required)'),
+  default: z.string().optional().describe('Default selected tab')
+});
+
+export const BadgePropsSchema = z.object({
+  label: z.string().describe('Badge text (required)'),
+  color: z.string().optional().describe('Badge color')
+});
+
+export const ProgressPropsSchema = z.object({
+  value: z.number().describe('Current progress value (required)'),
+  max: z.number().optional().describe('Maximum value'),
+  label: z.string().optional().describe('Progress label')
+});
+
+export interface ComponentDefinition {
+  propsSchema: z.ZodObject;
+  description: string;
+  // Rule-based generation: props for rendering a top-level data key with this
+  // component, or null if the component doesn't apply to it
+  fromData?: (key: string, value: unknown) => Record<string, unknown> | null;
+}
+
+export const BUILT_IN_COMPONENTS = {
+  Container: {
+    propsSchema: ContainerPropsSchema,
+    description: 'Grid wrapper with configurable columns'
+  },
+  Card: {
+    propsSchema: CardPropsSchema,
+    description: 'Content container with a title header'
+  },
+  Section: {
+    propsSchema: SectionPropsSchema,
+    description: 'Collapsible grouped content'
+  },
+  Metric: {
+    propsSchema: MetricPropsSchema,
+    description: 'Single KPI with trend indicator'
+  },
+  Table: {
+    propsSchema: TablePropsSchema,
+    description: 'Tabular data with sorting'
+  },
+  List: {
+    propsSchema: ListPropsSchema,
+    description: 'Item collection with avatars'
+  },
+  Chart: {
+    propsSchema: ChartPropsSchema,
+    description: 'Bar/line/pie visualizations'
+  },
+  Button: {
+    propsSchema: ButtonPropsSchema,
+    description: 'Action trigger'
+  },
+  Filter: {
+    propsSchema: FilterPropsSchema,
+    description: 'Data filtering control'
+  },
+  Tabs: {
+    propsSchema: TabsPropsSchema,
+    description: 'View switching - one child per tab'
+  },
+  Badge: {
+    propsSchema: BadgePropsSchema,
+    description: 'Status indicator'
+  },
+  Progress: {
+    propsSchema: ProgressPropsSchema,
+    description: 'Completion state'
+  },
+} satisfies Record<string, ComponentDefinition>;
+
+export type BuiltInComponentType = keyof typeof BUILT_IN_COMPONENTS;
+
+// Built-in types plus any name added with registerComponent
+export type ComponentType = BuiltInComponentType | (string & {});
 
 export interface ComponentSchema {
   component: ComponentType;
@@ -12,44 +173,140 @@ export interface ComponentSchema {
   children?: ComponentSchema[];
 }
 
-// Component prop definitions (validation schemas)
-export const COMPONENT_SPECS: Record<ComponentType, { props: string[]; required: string[] }> = {
-  Container: { props: ['cols', 'gap', 'colspan'], required: [] },
-  Card: { props: ['title', 'subtitle', 'actions', 'colspan'], required: ['title'] },
-  Section: { props: ['title', 'collapsible'], required: ['title'] },
-  Metric: { props: ['label', 'value', 'trend', 'icon'], required: ['label', 'value'] },
-  Table: { props: ['columns', 'rows', 'sortable'], required: ['columns', 'rows'] },
-  List: { props: ['items', 'avatar', 'template', 'actions'], required: ['items'] },
-  Chart: { props: ['type', 'data'], required: ['type', 'data'] },
-  Button: { props: ['label', 'variant', 'action'], required: ['label'] },
-  Filter: { props: ['options', 'multi', 'target'], required: ['options'] },
-  Tabs: { props: ['items', 'default'], required: ['items'] },
-  Badge: { props: ['label', 'color'], required: ['label'] },
-  Progress: { props: ['value', 'max', 'label'], required: ['value'] },
-};
-
-// Validate component schema
-export function validateSchema(schema: ComponentSchema): { valid: boolean; errors: string[] } {
+export interface ComponentSpec {
+  props: string[];
+  required: string[];
+  description: string;
+}
+
+// Live registry and the lookups derived from it - registerComponent keeps them in sync
+export const COMPONENT_REGISTRY: Record<string, ComponentDefinition> = {};
+export const COMPONENT_TYPES: ComponentType[] = [];
+export const COMPONENT_PROPS_SCHEMAS: Record<string, z.ZodObject> = {};
+export const COMPONENT_SPECS: Record<string, ComponentSpec> = {};
+
+function addToRegistry(name: ComponentType, definition: ComponentDefinition): void {
+  const { shape } = definition.propsSchema;
+  const props = Object.keys(shape);
+  // A prop is required when its schema rejects undefined
+  const required = props.filter(prop => !(shape[prop] as z.ZodType).safeParse(undefined).success);
+
+  if (!(name in COMPONENT_REGISTRY)) COMPONENT_TYPES.push(name);
+  COMPONENT_REGISTRY[name] = definition;
+  COMPONENT_PROPS_SCHEMAS[name] = definition.propsSchema;
+  COMPONENT_SPECS[name] = { props, required, description: definition.description };
+}
+
+for (const [name, definition] of Object.entries(BUILT_IN_COMPONENTS)) {
+  addToRegistry(name, definition);
+}
+
+// Renderers are called with props that already passed the component's propsSchema
+export type ComponentRenderer = React.ComponentType<Record<string, unknown>>;
+
+export interface ComponentRegistration extends ComponentDefinition {
+  name: string;
+  render: ComponentRenderer;
+}
+
+// Renderers by component type. registerComponent adds custom ones; the built-ins are added by
+// components/registry-renderers.tsx. The server only holds the references, it never renders them.
+export const COMPONENT_RENDERERS: Record<string, ComponentRenderer> = {};
+
+// Register a custom component. It becomes available to the renderer, schema validation, the
+// rule-based generator and the component catalog sent to Gemini.
+// Re-registering a custom component replaces it; built-ins can't be overridden.
+export function registerComponent({ name, render, ...definition }: ComponentRegistration): void {
+  if (!/^[A-Z][A-Za-z0-9]*$/.test(name)) {
+    throw new Error(`Component name must be PascalCase: ${name}`);
+  }
+  if (name in BUILT_IN_COMPONENTS) {
+    throw new Error(`Cannot override built-in component ${name}`);
+  }
+  addToRegistry(name, definition);
+  COMPONENT_RENDERERS[name] = render;
+}
+
+export function isComponentType(name: unknown): name is ComponentType {
+  return typeof name === 'string' && name in COMPONENT_REGISTRY;
+}
+
+// Checked against the live registry, so registered components are accepted too
+export const ComponentTypeSchema = z.string().refine(isComponentType, {
+  error: issue => `Unknown component: ${issue.input}`
+});
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: string[];    // Path-qualified, e.g. "children[2].props.type: expected bar|line|pie"
+  warnings: string[];  // Non-fatal issues such as unknown props
+}
+
+// Validate component schema - runs each node's props through its Zod props schema
+export function validateSchema(schema: ComponentSchema, path: string = ''): SchemaValidationResult {
   const errors: string[] = [];
-  const spec = COMPONENT_SPECS[schema.component];
+  const warnings: string[] = [];
+  const nodePath = path || 'root';
+  const propsPath = path ? `${path}.props` : 'props';
 
-  if (!spec) {
-    errors.push(`Unknown component: ${schema.component}`);
-    return { valid: false, errors };
+  const propsSchema = COMPONENT_PROPS_SCHEMAS[schema.component];
+  if (!propsSchema) {
+    errors.push(`${nodePath}: unknown component ${schema.component}`);
+    return { valid: false, errors, warnings };
   }
 
-  for (const req of spec.required) {
-    if (!(req in schema.props)) {
-      errors.push(`${schema.component} missing required prop: ${req}`);
+  const props = schema.props || {};
+  const result = propsSchema.safeParse(props);
+
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      const [prop] = issue.path;
+      // Data bindings are resolved at render time - their shape is checked against the data separately
+      if (isBinding(props[prop as string])) continue;
+
+      const issuePath = [propsPath, ...issue.path.map(String)].join('.');
+      errors.push(`${issuePath}: ${describeIssue(issue, props)}`);
     }
   }
 
-  if (schema.children) {
-    for (const child of schema.children) {
-      const childResult = validateSchema(child);
-      errors.push(...childResult.errors);
+  for (const prop of Object.keys(props)) {
+    if (!(prop in propsSchema.shape)) {
+      warnings.push(`${propsPath}.${prop}: unknown prop for ${schema.component}`);
     }
   }
 
-  return { valid: errors.length === 0, errors };
+  schema.children?.forEach((child, index) => {
+    const childResult = validateSchema(child, `${path ? `${path}.` : ''}children[${index}]`);
+    errors.push(...childResult.errors);
+    warnings.push(...childResult.warnings);
+  });
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+function isBinding(value: unknown): boolean {
+  return typeof value === 'string' && (value.startsWith('$data.') || value.startsWith('$item.'));
+}
+
+// Turn a Zod issue into a short message like "expected bar|line|pie"
+function describeIssue(issue: z.core.$ZodIssue, props: Record<string, unknown>): string {
+  if (issue.path.length === 1 && props[issue.path[0] as string] === undefined) {
+    return 'missing required prop';
+  }
+
+  switch (issue.code) {
+    case 'invalid_type':
+      return `expected ${issue.expected}`;
+    case 'invalid_value':
+      return `expected ${issue.values.map(String).join('|')}`;
+    case 'invalid_union': {
+      const expected = issue.errors.flat()
+        .map(nested => (nested.code === 'invalid_type' ? nested.expected : null))
+        .filter((value): value is NonNullable<typeof value> => value !== null);
+      return expected.length > 0 ? `expected ${Array.from(new Set(expected)).join('|')}` : issue.message;
+    }
+    default:
+      // Strip Zod's "Too big: " style prefixes
+      return issue.message.replace(/^[A-Z][\w ]*:\s*/, '');
+  }
 }
@@ -0,0 +1,17 @@
+// Custom Components - The one place to register domain-specific components
+// Imported by the page, DynamicRenderer and every API route that validates or generates
+// schemas, so the client and the server always see the same palette.
+// Keep renderers in 'use client' modules; the server only holds a reference to them.
+//
+// import { z } from 'zod';
+// import { registerComponent } from './components';
+// import { Sparkline } from '@/components/ui/sparkline';
+//
+// registerComponent({
+//   name: 'Sparkline',
+//   description: 'Small inline trend line for a numeric series',
+//   propsSchema: z.object({ points: z.union([z.array(z.number()), z.string()]) }),
+//   render: Sparkline,
+// });
+
+export {};
@@ -87,7 +87,7 @@ const newSection = {
   }]
 };
 
-uiState = evolveUI(uiState, 'add', 'root.children[4]', newSection);
+uiState = evolveUI(uiState, 'add', '/children/-', newSection);
 console.log('\nAfter evolution - version:', uiState.version);
 console.log('History entries:', uiState.history.length);
 console.log('Latest diff:', JSON.stringify(uiState.history[0].diff, null, 2));
@@ -0,0 +1,205 @@
+// Schema Diff - Compares two ComponentSchema trees
+// Produces an aligned tree for display and the EvolutionDiff list that turns one into the other
+
+import { ComponentSchema } from './components';
+import type { EvolutionDiff } from './generator';
+import { formatPath } from './patch';
+
+export type SchemaChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface SchemaNodeDiff {
+  status: SchemaChangeStatus;
+  before?: ComponentSchema;
+  after?: ComponentSchema;
+  beforePath?: string;
+  afterPath?: string;
+  changedProps: string[];      // Props added, removed or modified on this node
+  children: SchemaNodeDiff[];
+}
+
+// Align two schema trees node by node
+export function compareSchemas(a: ComponentSchema, b: ComponentSchema): SchemaNodeDiff {
+  return compareNodes(a, b, [], []);
+}
+
+// Compute the diffs that transform `a` into `b`: applyPatches(a, diffSchemas(a, b)) equals b
+export function diffSchemas(a: ComponentSchema, b: ComponentSchema): EvolutionDiff[] {
+  const tree = compareSchemas(a, b);
+
+  // A different root component can't be expressed as a child change
+  if (tree.status === 'changed' && a.component !== b.component) {
+    return [{ operation: 'update', path: '', value: b }];
+  }
+
+  return collectDiffs(tree);
+}
+
+// Count changes by status, e.g. for a summary line
+export function summarizeDiff(tree: SchemaNodeDiff): Record<SchemaChangeStatus, number> {
+  const counts: Record<SchemaChangeStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  const visit = (node: SchemaNodeDiff) => {
+    counts[node.status]++;
+    node.children.forEach(visit);
+  };
+  visit(tree);
+  return counts;
+}
+
+function compareNodes(
+  a: ComponentSchema,
+  b: ComponentSchema,
+  aIndexes: number[],
+  bIndexes: number[]
+): SchemaNodeDiff {
+  const beforePath = formatPath(aIndexes);
+  const afterPath = formatPath(bIndexes);
+
+  // Different component types are a replacement - don't descend
+  if (a.component !== b.component) {
+    return {
+      status: 'changed',
+      before: a,
+      after: b,
+      beforePath,
+      afterPath,
+      changedProps: unionKeys(a.props, b.props),
+      children: []
+    };
+  }
+
+  const changedProps = unionKeys(a.props, b.props).filter(
+    key => !isEqual(a.props?.[key], b.props?.[key])
+  );
+
+  const aChildren = a.children || [];
+  const bChildren = b.children || [];
+  const pairs = alignChildren(aChildren, bChildren);
+
+  const children = pairs.map(([i, j]) => {
+    if (i === null) {
+      return {
+        status: 'added' as const,
+        after: bChildren[j!],
+        afterPath: formatPath([...bIndexes, j!]),
+        changedProps: [],
+        children: []
+      };
+    }
+    if (j === null) {
+      return {
+        status: 'removed' as const,
+        before: aChildren[i],
+        beforePath: formatPath([...aIndexes, i]),
+        changedProps: [],
+        children: []
+      };
+    }
+    return compareNodes(aChildren[i], bChildren[j], [...aIndexes, i], [...bIndexes, j]);
+  });
+
+  const childrenChanged = children.some(child => child.status !== 'unchanged');
+
+  return {
+    status: changedProps.length > 0 || childrenChanged ? 'changed' : 'unchanged',
+    before: a,
+    after: b,
+    beforePath,
+    afterPath,
+    changedProps,
+    children
+  };
+}
+
+// Match children with a longest common subsequence on a stable identity key.
+// Returns [aIndex, bIndex] pairs in display order; null marks an added/removed child.
+function alignChildren(
+  aChildren: ComponentSchema[],
+  bChildren: ComponentSchema[]
+): Array<[number | null, number | null]> {
+  const aKeys = aChildren.map(identityKey);
+  const bKeys = bChildren.map(identityKey);
+
+  // lengths[i][j] = LCS length of aKeys[i..] and bKeys[j..]
+  const lengths: number[][] = Array.from({ length: aKeys.length + 1 }, () =>
+    new Array(bKeys.length + 1).fill(0)
+  );
+  for (let i = aKeys.length - 1; i >= 0; i--) {
+    for (let j = bKeys.length - 1; j >= 0; j--) {
+      lengths[i][j] = aKeys[i] === bKeys[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number | null, number | null]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < aKeys.length && j < bKeys.length) {
+    if (aKeys[i] === bKeys[j]) {
+      pairs.push([i++, j++]);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pairs.push([i++, null]);
+    } else {
+      pairs.push([null, j++]);
+    }
+  }
+  while (i < aKeys.length) pairs.push([i++, null]);
+  while (j < bKeys.length) pairs.push([null, j++]);
+
+  return pairs;
+}
+
+// Components are considered "the same" if type and their main label/binding match
+function identityKey(schema: ComponentSchema): string {
+  const props = schema.props || {};
+  const identity = props.title ?? props.label ?? props.items ?? props.rows ?? props.data ?? '';
+  return `${schema.component}:${typeof identity === 'string' ? identity : JSON.stringify(identity)}`;
+}
+
+// Turn an aligned tree into ordered diffs.
+// Per parent: update own props, remove (descending), add (ascending), then recurse -
+// after removals and additions every remaining child sits at its target index.
+function collectDiffs(node: SchemaNodeDiff): EvolutionDiff[] {
+  if (node.status === 'unchanged') return [];
+
+  const diffs: EvolutionDiff[] = [];
+  const before = node.before!;
+  const after = node.after!;
+
+  if (before.component !== after.component) {
+    return [{ operation: 'update', path: node.afterPath!, value: after }];
+  }
+
+  if (node.changedProps.length > 0) {
+    diffs.push({
+      operation: 'update',
+      path: node.afterPath!,
+      value: { ...after, children: before.children }
+    });
+  }
+
+  // The parent may have moved, so address removed children relative to its new path
+  const removed = node.children.filter(child => child.status === 'removed').reverse();
+  for (const child of removed) {
+    const index = child.beforePath!.split('/').pop();
+    diffs.push({ operation: 'remove', path: `${node.afterPath}/children/${index}` });
+  }
+
+  for (const child of node.children.filter(child => child.status === 'added')) {
+    diffs.push({ operation: 'add', path: child.afterPath!, value: child.after });
+  }
+
+  for (const child of node.children.filter(child => child.status === 'changed')) {
+    diffs.push(...collectDiffs(child));
+  }
+
+  return diffs;
+}
+
+function unionKeys(a?: Record<string, unknown>, b?: Record<string, unknown>): string[] {
+  return Array.from(new Set([...Object.keys(a || {}), ...Object.keys(b || {})]));
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,65 @@
+// Domain Client - Browser-side calls to the domain management routes
+// Keeps the in-memory AI domains (getAllDomains) in sync with what was saved.
+
+import { DomainConfig, getAllDomains, loadAIDomains, setAIDomains, SYSTEM_DOMAINS } from './domains';
+
+async function requestJSON<T>(url: string, method: string, body?: Record<string, unknown>): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    // Validation failures list every problem in `errors`
+    const details = Array.isArray(result.errors) && result.errors.length > 0 ? result.errors.join('; ') : result.error;
+    throw new Error(details || `Request failed: ${response.status} ${response.statusText}`);
+  }
+  return result as T;
+}
+
+function aiDomains(): DomainConfig[] {
+  return getAllDomains().filter(domain => !SYSTEM_DOMAINS.includes(domain));
+}
+
+// System domains plus the saved AI domains, freshly loaded
+export async function fetchAllDomains(): Promise<DomainConfig[]> {
+  await loadAIDomains();
+  return getAllDomains();
+}
+
+// Change fields of a saved domain, or replace it as a whole (which can also remove fields); returns the new version
+export async function updateDomain(
+  id: string,
+  changes: Partial<DomainConfig>,
+  { replace = false }: { replace?: boolean } = {}
+): Promise<DomainConfig> {
+  const { domain } = await requestJSON<{ domain: DomainConfig }>(`/api/domains/${encodeURIComponent(id)}`, replace ? 'PUT' : 'PATCH', { domain: changes });
+  setAIDomains(aiDomains().map(entry => (entry.id === id ? domain : entry)));
+  return domain;
+}
+
+// Delete a saved domain and its history
+export async function deleteDomain(id: string): Promise<void> {
+  await requestJSON(`/api/domains/${encodeURIComponent(id)}`, 'DELETE');
+  setAIDomains(aiDomains().filter(entry => entry.id !== id));
+}
+
+// Save a copy of any domain (system ones included) as a new AI domain
+export async function duplicateDomain(source: DomainConfig): Promise<DomainConfig> {
+  const taken = new Set(getAllDomains().map(domain => domain.id));
+  let id = `${source.id}_copy`;
+  for (let n = 2; taken.has(id); n++) id = `${source.id}_copy_${n}`;
+
+  // The copy starts its own history at version 1
+  const fields: Partial<DomainConfig> = { ...source };
+  delete fields.version;
+  delete fields.updatedAt;
+
+  const { domain } = await requestJSON<{ domain: DomainConfig }>('/api/domains', 'POST', {
+    domain: { ...fields, id, name: `${source.name} (copy)`, createdBy: 'ai', createdAt: new Date().toISOString() }
+  });
+  setAIDomains([...aiDomains(), domain]);
+  return domain;
+}
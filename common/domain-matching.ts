@@ -0,0 +1,219 @@
+// Domain Matching - Ranks domains against JSON data and explains the ranking
+// Keys are compared token by token ("repo_stars" matches "stars", "pullRequests"
+// matches "pull_requests"), with fuzzy matching for plurals and small typos. Nested keys
+// count less than top-level ones, keywords can be weighted, expect a value type, or be
+// negative (evidence against the domain).
+
+import type { DomainConfig } from './domains';
+
+export type ValueType = 'number' | 'string' | 'boolean' | 'array' | 'object' | 'null';
+
+// Lowest score matchDomain accepts
+export const MATCH_THRESHOLD = 0.3;
+
+export interface KeywordMatch {
+  keyword: string;
+  key: string;          // Path of the best matching key, e.g. "repo.stars" or "commits[].author"
+  kind: 'exact' | 'tokens' | 'fuzzy' | 'substring';
+  strength: number;     // 0-1 after nesting and value type adjustments
+}
+
+export interface DomainCandidate {
+  domain: DomainConfig;
+  score: number;                // 0-1: weighted share of keywords found, minus negative keywords
+  matched: KeywordMatch[];
+  unmatched: string[];
+  negative: KeywordMatch[];     // Negative keywords found in the data
+}
+
+interface DataKey {
+  path: string;
+  normalized: string;   // Lowercase, alphanumerics only
+  tokens: string[];
+  depth: number;        // 0 for top-level keys
+  type: ValueType;
+}
+
+// How deep nested keys are collected, and how many array items are looked at
+const MAX_DEPTH = 3;
+const MAX_ARRAY_ITEMS = 5;
+
+// Strength per kind of match, and the factors for nested keys and wrong value types
+const KIND_STRENGTH: Record<KeywordMatch['kind'], number> = { exact: 1, tokens: 0.9, fuzzy: 0.75, substring: 0.6 };
+const NESTED_FACTOR = 0.7;
+const TYPE_MISMATCH_FACTOR = 0.5;
+
+// All domains that match the data at all, best first
+export function rankDomains(data: Record<string, unknown>, domains: DomainConfig[]): DomainCandidate[] {
+  const keys = collectKeys(data);
+
+  return domains
+    .map(domain => scoreDomain(domain, keys))
+    .filter(candidate => candidate.score > 0)
+    // Ties go to the domain with more evidence, then the stronger single matches
+    .sort((a, b) =>
+      b.score - a.score ||
+      b.matched.length - a.matched.length ||
+      strongest(b) - strongest(a)
+    );
+}
+
+// One-line explanation, e.g. "GitHub Repository 67%: stars (repo_stars), commits; missing forks"
+export function explainCandidate({ domain, score, matched, unmatched, negative }: DomainCandidate): string {
+  const parts = [matched.map(match => (match.key === match.keyword ? match.keyword : `${match.keyword} (${match.key})`)).join(', ')];
+  if (unmatched.length > 0) parts.push(`missing ${unmatched.join(', ')}`);
+  if (negative.length > 0) parts.push(`against: ${negative.map(match => match.keyword).join(', ')}`);
+  return `${domain.name} ${Math.round(score * 100)}%: ${parts.join('; ')}`;
+}
+
+function scoreDomain(domain: DomainConfig, keys: DataKey[]): DomainCandidate {
+  const weight = (keyword: string) => domain.keywordWeights?.[keyword] ?? 1;
+  const matched: KeywordMatch[] = [];
+  const unmatched: string[] = [];
+  const negative: KeywordMatch[] = [];
+  let total = 0;
+  let found = 0;
+
+  for (const keyword of domain.keywords) {
+    total += weight(keyword);
+    const match = bestMatch(keyword, keys, domain.keywordTypes?.[keyword]);
+    if (match) {
+      matched.push(match);
+      found += weight(keyword) * match.strength;
+    } else {
+      unmatched.push(keyword);
+    }
+  }
+
+  let penalty = 0;
+  for (const keyword of domain.negativeKeywords || []) {
+    const match = bestMatch(keyword, keys);
+    if (match) {
+      negative.push(match);
+      penalty += weight(keyword) * match.strength;
+    }
+  }
+
+  const score = total > 0 ? Math.max(0, (found - penalty) / total) : 0;
+  return { domain, score: Math.round(score * 1000) / 1000, matched, unmatched, negative };
+}
+
+function bestMatch(keyword: string, keys: DataKey[], expectedType?: ValueType): KeywordMatch | null {
+  const normalized = normalize(keyword);
+  const tokens = tokenize(keyword);
+  let best: KeywordMatch | null = null;
+
+  for (const key of keys) {
+    const kind = matchKind(normalized, tokens, key);
+    if (!kind) continue;
+
+    let strength = KIND_STRENGTH[kind];
+    if (key.depth > 0) strength *= NESTED_FACTOR;
+    if (expectedType && key.type !== expectedType) strength *= TYPE_MISMATCH_FACTOR;
+
+    if (!best || strength > best.strength) {
+      best = { keyword, key: key.path, kind, strength: Math.round(strength * 100) / 100 };
+    }
+  }
+
+  return best;
+}
+
+function matchKind(normalized: string, tokens: string[], key: DataKey): KeywordMatch['kind'] | null {
+  if (key.normalized === normalized) return 'exact';
+  if (tokens.every(token => key.tokens.includes(token))) return 'tokens';
+  if (tokens.every(token => key.tokens.some(keyToken => similarTokens(token, keyToken)))) return 'fuzzy';
+  // Run-together keys like "hospitaloverviewdata"
+  if (normalized.length >= 4 && key.normalized.includes(normalized)) return 'substring';
+  return null;
+}
+
+// Same word up to a plural ending, or one edit apart for longer words
+function similarTokens(a: string, b: string): boolean {
+  if (stem(a) === stem(b)) return true;
+  return a.length >= 6 && b.length >= 6 && editDistanceAtMostOne(a, b);
+}
+
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 3 && token.endsWith('es') && /(s|x|ch|sh)es$/.test(token)) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+function editDistanceAtMostOne(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+// Keys of the data and its nested objects (array items included), with their value types
+function collectKeys(data: Record<string, unknown>): DataKey[] {
+  const keys = new Map<string, DataKey>();
+
+  const walk = (value: Record<string, unknown>, prefix: string, depth: number) => {
+    for (const [key, child] of Object.entries(value)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (!keys.has(path)) {
+        keys.set(path, { path, normalized: normalize(key), tokens: tokenize(key), depth, type: valueType(child) });
+      }
+      if (depth + 1 >= MAX_DEPTH) continue;
+
+      if (Array.isArray(child)) {
+        for (const item of child.slice(0, MAX_ARRAY_ITEMS)) {
+          if (isPlainObject(item)) walk(item, `${path}[]`, depth + 1);
+        }
+      } else if (isPlainObject(child)) {
+        walk(child, path, depth + 1);
+      }
+    }
+  };
+
+  walk(data, '', 0);
+  return Array.from(keys.values());
+}
+
+function valueType(value: unknown): ValueType {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'object' ? 'object' : (typeof value as ValueType);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// "repoStars", "repo_stars" and "repo-stars" all become ["repo", "stars"]
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function strongest(candidate: DomainCandidate): number {
+  return Math.max(0, ...candidate.matched.map(match => match.strength));
+}
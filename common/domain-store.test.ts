@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DomainConfig } from './domains';
+
+// domains.json lives under process.cwd(), so point that at a temp dir before loading the store
+let dir: string;
+let store: typeof import('./domain-store');
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'domain-store-'));
+  await fs.mkdir(path.join(dir, 'common'));
+  vi.spyOn(process, 'cwd').mockReturnValue(dir);
+  store = await import('./domain-store');
+});
+
+beforeEach(async () => {
+  await fs.rm(store.DOMAINS_FILE_PATH, { force: true });
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+const saved: DomainConfig = {
+  id: 'crm',
+  name: 'CRM',
+  description: 'Leads and deals',
+  keywords: ['leads', 'deals'],
+  questions: [],
+  layoutHints: { preferredLayout: 'grid' },
+  createdBy: 'ai',
+  createdAt: '2026-01-01T00:00:00.000Z'
+};
+
+describe('domain versions', () => {
+  it('keeps every edit as a new version', async () => {
+    expect((await store.createAIDomain(saved)).version).toBe(1);
+    await store.updateAIDomain('crm', { keywords: ['leads', 'deals', 'pipeline'] });
+    const edited = await store.updateAIDomain('crm', { name: 'Sales CRM' });
+
+    expect(edited).toMatchObject({ version: 3, name: 'Sales CRM', keywords: ['leads', 'deals', 'pipeline'] });
+    expect((await store.listDomainVersions('crm')).map(version => version.version)).toEqual([1, 2, 3]);
+  });
+
+  it('rolls back to an earlier version as a new version', async () => {
+    await store.createAIDomain(saved);
+    await store.updateAIDomain('crm', { name: 'Sales CRM', keywords: ['pipeline'] });
+
+    const restored = await store.rollbackAIDomain('crm', 1);
+    expect(restored).toMatchObject({ version: 3, name: 'CRM', keywords: ['leads', 'deals'] });
+    expect(restored.createdAt).toBe(saved.createdAt);
+    expect((await store.readAIDomains())[0]).toEqual(restored);
+
+    // The rollback can be undone like any other edit
+    expect(await store.rollbackAIDomain('crm', 2)).toMatchObject({ version: 4, name: 'Sales CRM' });
+  });
+
+  it('rejects unknown versions, unknown domains and system domains', async () => {
+    await store.createAIDomain(saved);
+
+    await expect(store.rollbackAIDomain('crm', 7)).rejects.toMatchObject({ reason: 'not_found' });
+    await expect(store.rollbackAIDomain('missing', 1)).rejects.toMatchObject({ reason: 'not_found' });
+    await expect(store.rollbackAIDomain('github_repo', 1)).rejects.toMatchObject({ reason: 'read_only' });
+  });
+
+  it('does not save an edit that fails validation', async () => {
+    await store.createAIDomain(saved);
+
+    await expect(store.updateAIDomain('crm', { keywords: [] })).rejects.toMatchObject({ reason: 'invalid' });
+    expect((await store.listDomainVersions('crm')).map(version => version.version)).toEqual([1]);
+  });
+});
@@ -0,0 +1,242 @@
+// Domain Store - Server-side access to AI-generated domains in domains.json
+// Every edit bumps the domain's version and keeps the previous one in the file's
+// history, so a bad edit (or a bad AI-generated domain) can be rolled back.
+// Writes are validated against DomainConfigSchema and serialized with a lock file;
+// the file is replaced atomically (temp file + rename), so concurrent saves from
+// several builders never clobber each other and readers never see a partial file.
+// Only import from route handlers: this module uses the filesystem.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DomainConfig, DomainConfigSchema, SYSTEM_DOMAINS, setAIDomains } from './domains';
+import { withFileLock, writeFileAtomic, FileLockError } from './file-lock';
+
+export const DOMAINS_FILE_PATH = path.join(process.cwd(), 'common', 'domains.json');
+
+interface DomainsFile {
+  domains: DomainConfig[];
+  history?: Record<string, DomainConfig[]>;  // Previous versions per domain id, oldest first
+}
+
+// Fields an edit can't change - they identify the domain and its history
+const MANAGED_FIELDS = ['id', 'version', 'createdBy', 'createdAt', 'updatedAt'] as const;
+
+export class DomainStoreError extends Error {
+  reason: 'not_found' | 'read_only' | 'conflict' | 'invalid' | 'locked';
+  errors: string[];  // Validation errors, e.g. "keywords: Too small: expected array to have >=1 items"
+
+  constructor(message: string, reason: DomainStoreError['reason'], errors: string[] = []) {
+    super(message);
+    this.name = 'DomainStoreError';
+    this.reason = reason;
+    this.errors = errors;
+  }
+}
+
+// HTTP status for a failed store operation (500 for anything that isn't a DomainStoreError)
+export function domainErrorStatus(error: unknown): number {
+  if (!(error instanceof DomainStoreError)) return 500;
+  return { not_found: 404, read_only: 403, conflict: 409, invalid: 400, locked: 503 }[error.reason];
+}
+
+// Read the saved AI domains (empty if the file doesn't exist or is invalid)
+export async function readAIDomains(): Promise<DomainConfig[]> {
+  return (await readDomainsFile()).domains;
+}
+
+// Make getAllDomains() see the saved AI domains. Call before matching domains or building
+// prompts on the server: domains may have been edited since the last request.
+export async function syncAIDomains(): Promise<void> {
+  setAIDomains(await readAIDomains());
+}
+
+// A saved AI domain or a system domain
+export async function getDomain(id: string): Promise<DomainConfig> {
+  const domain =
+    SYSTEM_DOMAINS.find(entry => entry.id === id) ||
+    (await readAIDomains()).find(entry => entry.id === id);
+
+  if (!domain) {
+    throw new DomainStoreError(`Domain not found: ${id}`, 'not_found');
+  }
+  return domain;
+}
+
+// Save a new AI domain as version 1
+export async function createAIDomain(domain: DomainConfig): Promise<DomainConfig> {
+  const created = parseDomain({ ...domain, version: 1 });
+
+  return updateDomainsFile(file => {
+    if (SYSTEM_DOMAINS.some(entry => entry.id === created.id) || file.domains.some(entry => entry.id === created.id)) {
+      throw new DomainStoreError('Domain with this ID already exists', 'conflict');
+    }
+
+    checkParent(file, created);
+    file.domains.push(created);
+    return created;
+  });
+}
+
+// Replace (PUT) or merge into (PATCH) a saved domain. The previous version goes to history.
+export async function updateAIDomain(
+  id: string,
+  changes: Partial<DomainConfig>,
+  { replace = false }: { replace?: boolean } = {}
+): Promise<DomainConfig> {
+  return updateDomainsFile(file => {
+    const index = findEditableDomain(file, id);
+    const current = file.domains[index];
+
+    const edited = { ...(replace ? {} : current), ...withoutManagedFields(changes) } as DomainConfig;
+    return saveVersion(file, index, edited);
+  });
+}
+
+// Delete a saved domain along with its history
+export async function deleteAIDomain(id: string): Promise<DomainConfig> {
+  return updateDomainsFile(file => {
+    const index = findEditableDomain(file, id);
+    const children = file.domains.filter(entry => entry.extends === id).map(entry => entry.id);
+    if (children.length > 0) {
+      throw new DomainStoreError(`Domain ${id} is extended by ${children.join(', ')}`, 'conflict');
+    }
+
+    const [removed] = file.domains.splice(index, 1);
+
+    if (file.history) delete file.history[id];
+    return removed;
+  });
+}
+
+// All versions of a domain, oldest first - the last one is the current version
+export async function listDomainVersions(id: string): Promise<DomainConfig[]> {
+  const file = await readDomainsFile();
+  const index = findEditableDomain(file, id);
+  return [...(file.history?.[id] || []), file.domains[index]];
+}
+
+// Restore an earlier version. It's saved as a new version, so the rollback can be undone too.
+export async function rollbackAIDomain(id: string, version: number): Promise<DomainConfig> {
+  return updateDomainsFile(file => {
+    const index = findEditableDomain(file, id);
+    const target = file.history?.[id]?.find(entry => versionOf(entry) === version);
+
+    if (!target) {
+      throw new DomainStoreError(`Version ${version} of ${id} not found`, 'not_found');
+    }
+    return saveVersion(file, index, withoutManagedFields(target) as DomainConfig);
+  });
+}
+
+// Check a domain against DomainConfigSchema. Returns the parsed domain (unknown fields dropped).
+export function parseDomain(domain: unknown): DomainConfig {
+  const result = DomainConfigSchema.safeParse(domain);
+  if (!result.success) {
+    const errors = result.error.issues.map(issue => `${issue.path.join('.') || 'domain'}: ${issue.message}`);
+    throw new DomainStoreError(`Invalid domain configuration: ${errors.join('; ')}`, 'invalid', errors);
+  }
+  return result.data;
+}
+
+// Domains saved before versioning count as version 1
+function versionOf(domain: DomainConfig): number {
+  return domain.version ?? 1;
+}
+
+// Make `edited` the next version of the domain at `index`
+function saveVersion(file: DomainsFile, index: number, edited: DomainConfig): DomainConfig {
+  const current = file.domains[index];
+  const next = parseDomain({
+    ...edited,
+    id: current.id,
+    createdBy: current.createdBy,
+    createdAt: current.createdAt,
+    version: versionOf(current) + 1,
+    updatedAt: new Date().toISOString()
+  });
+  checkParent(file, next);
+
+  file.history = file.history || {};
+  file.history[current.id] = [...(file.history[current.id] || []), current];
+  file.domains[index] = next;
+  return next;
+}
+
+// A domain can only extend a domain that exists, and never (indirectly) itself
+function checkParent(file: DomainsFile, domain: DomainConfig): void {
+  const domains = [...SYSTEM_DOMAINS, ...file.domains.filter(entry => entry.id !== domain.id), domain];
+  const seen = new Set([domain.id]);
+
+  let current = domain;
+  while (current.extends) {
+    const parentId = current.extends;
+    const parent = domains.find(entry => entry.id === parentId);
+
+    if (!parent || seen.has(parent.id)) {
+      const error = parent ? `extends: ${domain.id} would extend itself` : `extends: Unknown domain ${parentId}`;
+      throw new DomainStoreError(`Invalid domain configuration: ${error}`, 'invalid', [error]);
+    }
+    seen.add(parent.id);
+    current = parent;
+  }
+}
+
+function findEditableDomain(file: DomainsFile, id: string): number {
+  if (SYSTEM_DOMAINS.some(entry => entry.id === id)) {
+    throw new DomainStoreError(`System domain ${id} is read-only`, 'read_only');
+  }
+
+  const index = file.domains.findIndex(entry => entry.id === id);
+  if (index === -1) {
+    throw new DomainStoreError(`Domain not found: ${id}`, 'not_found');
+  }
+  return index;
+}
+
+function withoutManagedFields(domain: Partial<DomainConfig>): Partial<DomainConfig> {
+  const fields = { ...domain };
+  for (const field of MANAGED_FIELDS) delete fields[field];
+  return fields;
+}
+
+// For reads: a missing or unreadable file counts as empty
+async function readDomainsFile(): Promise<DomainsFile> {
+  try {
+    return await loadDomainsFile();
+  } catch (error) {
+    console.error('Failed to read domains.json:', error);
+    return { domains: [] };
+  }
+}
+
+// For writes: only a missing file counts as empty - an unreadable one must not be overwritten
+async function loadDomainsFile(): Promise<DomainsFile> {
+  let fileContent: string;
+  try {
+    fileContent = await fs.readFile(DOMAINS_FILE_PATH, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { domains: [] };
+    throw error;
+  }
+
+  const data = JSON.parse(fileContent);
+  return { domains: data.domains || [], history: data.history };
+}
+
+// Read-modify-write under the lock (see file-lock.ts). The change is only written if `update` doesn't throw.
+async function updateDomainsFile<T>(update: (file: DomainsFile) => T): Promise<T> {
+  try {
+    return await withFileLock(DOMAINS_FILE_PATH, async () => {
+      const file = await loadDomainsFile();
+      const result = update(file);
+
+      await writeFileAtomic(DOMAINS_FILE_PATH, JSON.stringify(file, null, 2));
+      return result;
+    });
+  } catch (error) {
+    if (error instanceof FileLockError) {
+      throw new DomainStoreError(error.message, 'locked');
+    }
+    throw error;
+  }
+}
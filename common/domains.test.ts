@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { DomainConfig, SYSTEM_DOMAINS, matchDomain, rankAllDomains, selectCandidates } from './domains';
+
+const domain = (overrides: Partial<DomainConfig> & Pick<DomainConfig, 'id' | 'keywords'>): DomainConfig => ({
+  name: overrides.id,
+  description: '',
+  questions: [],
+  layoutHints: {},
+  createdBy: 'ai',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const ids = (data: Record<string, unknown>, domains: DomainConfig[] = SYSTEM_DOMAINS) =>
+  rankAllDomains(data, domains).map(candidate => candidate.domain.id);
+
+describe('domain ranking', () => {
+  it('ranks the domain with the most matching keywords first', () => {
+    const data = { stars: 10, forks: 2, commits: [], contributors: [], orders: [] };
+
+    expect(ids(data)[0]).toBe('github_repo');
+    expect(matchDomain(data, SYSTEM_DOMAINS)?.id).toBe('github_repo');
+  });
+
+  it('matches keys by tokens, and nested keys more weakly than top-level ones', () => {
+    const [top] = rankAllDomains({ repo_stars: 1, forks: 1, commits: [] }, SYSTEM_DOMAINS);
+    expect(top.matched.find(match => match.keyword === 'stars')).toMatchObject({ key: 'repo_stars', kind: 'tokens' });
+
+    const flat = rankAllDomains({ stars: 1, forks: 1 }, SYSTEM_DOMAINS)[0].score;
+    const nested = rankAllDomains({ repo: { stars: 1, forks: 1 } }, SYSTEM_DOMAINS)[0].score;
+    expect(nested).toBeLessThan(flat);
+  });
+
+  it('uses keyword weights and negative keywords', () => {
+    const heavy = domain({ id: 'heavy', keywords: ['alpha', 'beta'], keywordWeights: { alpha: 3 } });
+    const light = domain({ id: 'light', keywords: ['alpha', 'gamma'] });
+    expect(ids({ alpha: 1 }, [light, heavy])).toEqual(['heavy', 'light']);
+
+    const against = domain({ id: 'against', keywords: ['alpha', 'beta'], negativeKeywords: ['gamma'] });
+    const [candidate] = rankAllDomains({ alpha: 1, beta: 1, gamma: 1 }, [against]);
+    expect(candidate.negative.map(match => match.keyword)).toEqual(['gamma']);
+    expect(candidate.score).toBeLessThan(1);
+  });
+
+  it('ranks child domains with the keywords they inherit', () => {
+    const child = domain({ id: 'github_ci', extends: 'github_repo', keywords: ['workflow_runs'] });
+    const [top] = rankAllDomains({ stars: 1, forks: 1, commits: [], workflow_runs: [] }, [...SYSTEM_DOMAINS, child]);
+
+    expect(top.domain.id).toBe('github_ci');
+    expect(top.domain.keywords).toEqual(expect.arrayContaining(['stars', 'workflow_runs']));
+  });
+
+  it('returns no match below the threshold', () => {
+    expect(matchDomain({ unrelated: 1, fields: 2 }, SYSTEM_DOMAINS)).toBeNull();
+  });
+
+  it('never selects a domain together with its parent', () => {
+    const child = domain({ id: 'github_ci', extends: 'github_repo', keywords: ['workflow_runs'] });
+    const data = { stars: 1, forks: 1, commits: [], contributors: [], workflow_runs: [], orders: [], products: [], customers: [] };
+    const selected = selectCandidates(rankAllDomains(data, [...SYSTEM_DOMAINS, child]), 3).map(candidate => candidate.domain.id);
+
+    expect(selected).toContain('github_ci');
+    expect(selected).not.toContain('github_repo');
+  });
+});
@@ -1,25 +1,62 @@
 // Domain Configuration Management
 // Handles domain configs (both system-defined and AI-generated)
 
-import { Question } from './analyzer';
+import { z } from 'zod';
+import type { Question } from './analyzer';
+import type { PromptOverride } from './prompts';
+import { rankDomains, MATCH_THRESHOLD, DomainCandidate } from './domain-matching';
 
-export interface LayoutHints {
-  preferredLayout?: 'grid' | 'single-column' | 'tabs';
-  metricDisplay?: 'cards' | 'simple' | 'with-charts';
-  listStyle?: 'avatar' | 'simple' | 'detailed';
-  emphasize?: 'metrics' | 'lists' | 'timeline' | 'balanced';
-}
+export const LayoutHintsSchema = z.object({
+  preferredLayout: z.enum(['grid', 'single-column', 'tabs']).optional(),
+  metricDisplay: z.enum(['cards', 'simple', 'with-charts']).optional(),
+  listStyle: z.enum(['avatar', 'simple', 'detailed']).optional(),
+  emphasize: z.enum(['metrics', 'lists', 'timeline', 'balanced']).optional()
+});
 
-export interface DomainConfig {
-  id: string;
-  name: string;
-  description: string;
-  keywords: string[];           // Keys that identify this domain
-  questions: Question[];        // Domain-specific questions
-  layoutHints: LayoutHints;     // UI generation hints
-  createdBy: 'system' | 'ai';
-  createdAt: string;
-}
+export type LayoutHints = z.infer<typeof LayoutHintsSchema>;
+
+const QuestionSchema = z.object({
+  id: z.string().min(1),
+  text: z.string().min(1),
+  options: z.array(z.string().min(1)).min(2),
+  impact: z.string()
+}) satisfies z.ZodType<Question>;
+
+const PromptOverrideSchema = z.object({
+  version: z.string().min(1),
+  template: z.string().optional(),
+  sections: z.record(z.string(), z.string()).optional()
+}) satisfies z.ZodType<PromptOverride>;
+
+// Enforced on every write to domains.json (see domain-store.ts)
+export const DomainConfigSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]+$/, 'must be snake_case'),
+  name: z.string().min(1),
+  description: z.string(),
+  extends: z.string().optional(),                 // Parent domain id - its keywords, questions and hints are inherited
+  keywords: z.array(z.string().min(1)).min(1),   // Keys that identify this domain
+  keywordWeights: z.record(z.string(), z.number().positive()).optional(),  // Default weight 1
+  keywordTypes: z.record(z.string(), z.enum(['number', 'string', 'boolean', 'array', 'object', 'null'])).optional(),  // Expected value type per keyword
+  negativeKeywords: z.array(z.string().min(1)).optional(),  // Keys that count against this domain
+  questions: z.array(QuestionSchema),              // Domain-specific questions
+  layoutHints: LayoutHintsSchema,                  // UI generation hints
+  prompts: z.object({                              // Prompt overrides for this domain
+    generation: PromptOverrideSchema,
+    correction: PromptOverrideSchema,
+    evolution: PromptOverrideSchema
+  }).partial().optional(),
+  createdBy: z.enum(['system', 'ai']),
+  createdAt: z.string(),
+  version: z.number().int().positive().optional(),  // Bumped on every edit (saved domains start at 1)
+  updatedAt: z.string().optional()
+});
+
+export type DomainConfig = z.infer<typeof DomainConfigSchema> & {
+  // Set on resolved and combined domains (never saved): `id@version` of every domain merged in
+  sources?: string[];
+  // Set on combined domains (never saved): ids of the combined domains, the primary one first
+  combinedFrom?: string[];
+};
 
 // System-defined domains (migrated from analyzer.ts)
 export const SYSTEM_DOMAINS: DomainConfig[] = [
@@ -54,6 +91,8 @@ export const SYSTEM_DOMAINS: DomainConfig[] = [
     name: 'E-commerce',
     description: 'Sales, products, orders, and customer data',
     keywords: ['products', 'orders', 'revenue', 'customers', 'sales'],
+    keywordWeights: { products: 2, orders: 2 },
+    keywordTypes: { products: 'array', orders: 'array' },
     questions: [
       {
         id: 'priority',
@@ -106,6 +145,8 @@ export const SYSTEM_DOMAINS: DomainConfig[] = [
     name: 'Financial',
     description: 'Revenue, expenses, profit, and financial metrics',
     keywords: ['revenue', 'expenses', 'profit', 'income', 'costs'],
+    keywordWeights: { expenses: 2, profit: 2 },
+    negativeKeywords: ['orders', 'products'],
     questions: [
       {
         id: 'priority',
@@ -218,34 +259,144 @@ export async function loadAIDomains(): Promise<DomainConfig[]> {
   return [];
 }
 
+// Replace the in-memory AI domains (used on the server, where there's no fetch to /api/domains)
+export function setAIDomains(domains: DomainConfig[]): void {
+  aiDomains = domains;
+}
+
 // Get all domains (system + AI)
 export function getAllDomains(): DomainConfig[] {
   return [...SYSTEM_DOMAINS, ...aiDomains];
 }
 
-// Match JSON data to a domain config
-export function matchDomain(data: Record<string, any>): DomainConfig | null {
-  const keys = Object.keys(data).map(k => k.toLowerCase());
-  const allDomains = getAllDomains();
+// Rank domains (all of them unless a list is given) against JSON data, with inheritance resolved.
+// See domain-matching.ts for the scoring.
+export function rankAllDomains(data: Record<string, unknown>, allDomains: DomainConfig[] = getAllDomains()): DomainCandidate[] {
+  return rankDomains(data, allDomains.map(domain => resolveDomain(domain, allDomains)));
+}
 
-  // Find best match by keyword overlap
-  let bestMatch: { domain: DomainConfig; score: number } | null = null;
+// Match JSON data to a domain config. The best-ranked domain wins if it scores at least MATCH_THRESHOLD.
+export function matchDomain(data: Record<string, any>, allDomains: DomainConfig[] = getAllDomains()): DomainConfig | null {
+  return matchDomains(data, 1, allDomains)[0] || null;
+}
 
-  for (const domain of allDomains) {
-    const matchCount = domain.keywords.filter(keyword =>
-      keys.some(key => key.includes(keyword.toLowerCase()))
-    ).length;
+// Up to `limit` domains that match the data, best first - combine them with combineDomains
+export function matchDomains(
+  data: Record<string, unknown>,
+  limit: number,
+  allDomains: DomainConfig[] = getAllDomains()
+): DomainConfig[] {
+  return selectCandidates(rankAllDomains(data, allDomains), limit).map(candidate => candidate.domain);
+}
 
-    if (matchCount > 0) {
-      const score = matchCount / domain.keywords.length;
-      if (!bestMatch || score > bestMatch.score) {
-        bestMatch = { domain, score };
-      }
-    }
+// The candidates that clear MATCH_THRESHOLD, at most `limit`. A domain related by inheritance to a
+// better match is skipped: the better one already covers it.
+export function selectCandidates(candidates: DomainCandidate[], limit: number): DomainCandidate[] {
+  const selected: DomainCandidate[] = [];
+
+  for (const candidate of candidates) {
+    if (selected.length >= limit || candidate.score < MATCH_THRESHOLD) break;
+    if (!selected.some(({ domain }) => related(domain, candidate.domain))) selected.push(candidate);
+  }
+  return selected;
+}
+
+// `id@version` - identifies what a domain contained when a result was produced
+// (for resolved and combined domains, including their sources)
+export function domainRevision(domain: DomainConfig): string {
+  return revisions(domain).join(',');
+}
+
+function revisions(domain: DomainConfig): string[] {
+  return [`${domain.id}@${domain.version ?? 1}`, ...(domain.sources || [])];
+}
+
+// Fill in what a domain inherits through `extends`. The parent's keywords, questions and layout
+// hints come first; the domain's own ones are added, replacing questions with the same id and
+// overriding individual hints. The result no longer extends anything (its `sources` list the parents).
+export function resolveDomain(domain: DomainConfig, allDomains: DomainConfig[] = getAllDomains()): DomainConfig {
+  return resolveParents(domain, allDomains, new Set());
+}
+
+function resolveParents(domain: DomainConfig, allDomains: DomainConfig[], seen: Set<string>): DomainConfig {
+  if (!domain.extends) return domain;
+  const { extends: parentId, ...own } = domain;
+
+  // domain-store rejects unknown parents and cycles, but domains.json can be edited by hand
+  const parent = allDomains.find(entry => entry.id === parentId);
+  if (!parent || seen.has(parentId)) {
+    console.warn(`[Domains] ${domain.id} extends ${parent ? 'itself through' : 'unknown domain'} ${parentId}`);
+    return own;
   }
 
-  // Require at least 30% keyword match
-  return bestMatch && bestMatch.score >= 0.3 ? bestMatch.domain : null;
+  const base = resolveParents(parent, allDomains, seen.add(domain.id));
+  const ownQuestions = new Map(own.questions.map(question => [question.id, question]));
+
+  return {
+    ...own,
+    keywords: unique([...base.keywords, ...own.keywords]),
+    keywordWeights: mergeRecords(base.keywordWeights, own.keywordWeights),
+    keywordTypes: mergeRecords(base.keywordTypes, own.keywordTypes),
+    negativeKeywords: withoutKeywords(unique([...(base.negativeKeywords || []), ...(own.negativeKeywords || [])]), own.keywords),
+    questions: [
+      ...base.questions.map(question => ownQuestions.get(question.id) || question),
+      ...own.questions.filter(question => !base.questions.some(({ id }) => id === question.id))
+    ],
+    layoutHints: { ...base.layoutHints, ...own.layoutHints },
+    prompts: mergeRecords(base.prompts, own.prompts),
+    sources: revisions(base)
+  };
+}
+
+// Combine domains matched to the same data, e.g. a GitHub repo with CI runs. The first domain leads:
+// the result keeps its id, version and prompt overrides, its questions come first and win on
+// duplicate ids, and its layout hints win over the others'.
+export function combineDomains(domains: DomainConfig[]): DomainConfig {
+  if (domains.length === 1) return domains[0];
+  const [primary, ...others] = domains;
+  const keywords = unique(domains.flatMap(domain => domain.keywords));
+  const reversed = [...domains].reverse();
+
+  return {
+    id: primary.id,
+    version: primary.version,
+    name: domains.map(domain => domain.name).join(' + '),
+    description: domains.map(domain => domain.description).join('; '),
+    keywords,
+    keywordWeights: reversed.reduce<DomainConfig['keywordWeights']>((weights, domain) => mergeRecords(weights, domain.keywordWeights), undefined),
+    keywordTypes: reversed.reduce<DomainConfig['keywordTypes']>((types, domain) => mergeRecords(types, domain.keywordTypes), undefined),
+    negativeKeywords: withoutKeywords(unique(domains.flatMap(domain => domain.negativeKeywords || [])), keywords),
+    questions: domains
+      .flatMap(domain => domain.questions)
+      .filter((question, index, questions) => questions.findIndex(({ id }) => id === question.id) === index),
+    layoutHints: Object.assign({}, ...reversed.map(domain => domain.layoutHints)),
+    prompts: primary.prompts,
+    createdBy: domains.every(domain => domain.createdBy === 'system') ? 'system' : 'ai',
+    createdAt: new Date().toISOString(),
+    sources: [...(primary.sources || []), ...others.flatMap(revisions)],
+    combinedFrom: domains.map(domain => domain.id)
+  };
+}
+
+// Later records override earlier ones; undefined if there are none
+function mergeRecords<T extends object>(base: T | undefined, overrides: T | undefined): T | undefined {
+  return base || overrides ? { ...base, ...overrides } as T : undefined;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+// A keyword can't count both for and against a domain
+function withoutKeywords(negativeKeywords: string[], keywords: string[]): string[] | undefined {
+  const remaining = negativeKeywords.filter(keyword => !keywords.includes(keyword));
+  return remaining.length > 0 ? remaining : undefined;
+}
+
+// One domain inherits from the other (resolved domains list their parents in `sources`)
+function related(a: DomainConfig, b: DomainConfig): boolean {
+  const parents = (domain: DomainConfig) => (domain.sources || []).map(source => source.split('@')[0]);
+  return parents(a).includes(b.id) || parents(b).includes(a.id);
 }
 
 // Save a new AI-generated domain
@@ -258,7 +409,8 @@ export async function saveAIDomain(domain: DomainConfig): Promise<boolean> {
     });
 
     if (response.ok) {
-      aiDomains.push(domain);
+      const { domain: saved } = await response.json();
+      aiDomains.push(saved);
       return true;
     }
     return false;
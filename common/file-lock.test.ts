@@ -0,0 +1,84 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileLockError, withFileLock, writeFileAtomic } from './file-lock';
+
+let dir: string;
+let file: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-lock-'));
+  file = path.join(dir, 'data.json');
+  await fs.writeFile(file, '0');
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+// Read-modify-write with a pause in between, so unlocked updates would overwrite each other
+const increment = () => withFileLock(file, async () => {
+  const value = Number(await fs.readFile(file, 'utf-8'));
+  await new Promise(resolve => setTimeout(resolve, 2));
+  await writeFileAtomic(file, String(value + 1));
+  return value + 1;
+});
+
+describe('withFileLock', () => {
+  it('serializes concurrent updates of the same file', async () => {
+    const results = await Promise.all(Array.from({ length: 10 }, increment));
+
+    expect(await fs.readFile(file, 'utf-8')).toBe('10');
+    expect(results).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it('removes the lock file afterwards, also when the task throws', async () => {
+    await expect(withFileLock(file, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(fs.access(`${file}.lock`)).rejects.toThrow();
+
+    // A failed task doesn't block the queue
+    await expect(increment()).resolves.toBe(1);
+  });
+
+  it('waits for a lock held by another process', async () => {
+    await fs.writeFile(`${file}.lock`, '');
+    setTimeout(() => fs.rm(`${file}.lock`), 50);
+
+    await expect(increment()).resolves.toBe(1);
+  });
+
+  it('throws FileLockError when the lock is not released in time', async () => {
+    await fs.writeFile(`${file}.lock`, '');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const task = vi.fn(async () => 'done');
+
+    // Skip past the deadline once the first attempt has found the lock taken
+    const run = withFileLock(file, task);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    vi.setSystemTime(Date.now() + 6_000);
+
+    await expect(run).rejects.toBeInstanceOf(FileLockError);
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('breaks a stale lock left behind by a crashed process', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await fs.writeFile(`${file}.lock`, '');
+    const old = new Date(Date.now() - 60_000);
+    await fs.utimes(`${file}.lock`, old, old);
+
+    await expect(increment()).resolves.toBe(1);
+  });
+});
+
+describe('writeFileAtomic', () => {
+  it('replaces the content and leaves no temp files behind', async () => {
+    await writeFileAtomic(file, '{"a":1}');
+
+    expect(await fs.readFile(file, 'utf-8')).toBe('{"a":1}');
+    expect(await fs.readdir(dir)).toEqual(['data.json']);
+  });
+});
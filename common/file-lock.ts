@@ -0,0 +1,78 @@
+// File Lock - Serializes read-modify-write updates of files shared by several requests
+// Writes from this process queue up per file; a `<file>.lock` file keeps other processes
+// (e.g. several server instances) out. Files are replaced atomically (temp file + rename),
+// so readers never see a partial file.
+// Only import from route handlers: this module uses the filesystem.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+// How long to wait for the lock, and when a lock left behind by a crashed process is broken
+const LOCK_TIMEOUT_MS = 5_000;
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRY_MS = 25;
+
+export class FileLockError extends Error {
+  filePath: string;
+
+  constructor(filePath: string) {
+    super(`${path.basename(filePath)} is locked by another save, try again`);
+    this.name = 'FileLockError';
+    this.filePath = filePath;
+  }
+}
+
+// Pending writes per file
+const queues = new Map<string, Promise<unknown>>();
+
+// Run `task` while holding the lock on `filePath`. Throws FileLockError if the lock
+// can't be taken within LOCK_TIMEOUT_MS.
+export function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const run = (queues.get(filePath) || Promise.resolve()).then(() => withLockFile(filePath, task));
+  queues.set(filePath, run.catch(() => undefined));
+  return run;
+}
+
+// Replace the file's content in one step
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+async function withLockFile<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (true) {
+    try {
+      await (await fs.open(lockPath, 'wx')).close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+      const stats = await fs.stat(lockPath).catch(() => null);
+      if (stats && Date.now() - stats.mtimeMs > LOCK_STALE_MS) {
+        console.warn(`[Lock] Breaking stale lock on ${path.basename(filePath)}`);
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new FileLockError(filePath);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await task();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
@@ -1,25 +1,51 @@
 // UI Generator - Builds UI schema from context + answers
 
-import { ComponentSchema, validateSchema } from './components';
+import { ComponentSchema, COMPONENT_REGISTRY, COMPONENT_TYPES, validateSchema } from './components';
 import { InputContext, ContextAnalysis, Question } from './analyzer';
-import { generateSchemaWithGemini } from './ai-analyzer';
+import { generateSchemaWithAI, generateCorrectionWithAI, generateEvolutionWithAI, SchemaGenerationOptions } from './ai-analyzer';
+import { validateBindings } from './bindings';
+import type { LLMProvider } from './llm';
+import { describeFailure } from './llm-resilience';
+import { applyPatch, invertPatch } from './patch';
+import { repairSchema } from './repair';
 
 export interface UserAnswers {
   [questionId: string]: string;
 }
 
+export interface HistoryEntry {
+  version: string;         // Version the diff was applied to
+  nextVersion: string;     // Version the diff produced
+  diff: EvolutionDiff;
+  inverse: EvolutionDiff;  // Diff that restores `version` from the next one
+  timestamp: string;
+}
+
 export interface UIState {
   version: string;
+  revision: number;        // Highest patch number handed out - never reused, even after undo
   contextHash: string;
   schema: ComponentSchema;
   createdAt: string;
-  history: Array<{ version: string; diff: any; timestamp: string }>;
+  history: HistoryEntry[];
+  future?: HistoryEntry[]; // Undone entries available for redo (most recent last)
+}
+
+export interface GenerationAttempt {
+  attempt: number;     // 1 is the initial generation, later attempts are corrections
+  errors: string[];    // Validation and binding errors left after repair (empty if it passed)
+  promptVersion: string;
+}
+
+export interface GenerateUIOptions extends SchemaGenerationOptions {
+  maxAttempts?: number; // Generation plus corrections before settling for the best schema, a positive integer (default LLM_MAX_ATTEMPTS or 3)
 }
 
 export interface EvolutionDiff {
-  operation: 'add' | 'remove' | 'update';
-  path: string;
-  value?: ComponentSchema;
+  operation: 'add' | 'remove' | 'update' | 'move';
+  path: string;            // JSON-Pointer style, e.g. "/children/1/children/0"
+  value?: ComponentSchema; // Required for add/update
+  from?: string;           // Source path for move
 }
 
 // Generate UI based on context analysis and user answers
@@ -69,8 +95,18 @@ export function generateUI(
     if (metricsSection) children.push(metricsSection);
   }
 
+  // Registered custom components claim the data keys they know how to render
+  const claimedKeys = new Set<string>();
+  for (const [key, value] of Object.entries(data)) {
+    const customSection = buildCustomSection(key, value, listColspan);
+    if (customSection) {
+      children.push(customSection);
+      claimedKeys.add(key);
+    }
+  }
+
   // Build sections based on focus area and priority
-  const entities = analysis.entities;
+  const entities = analysis.entities.filter(entity => !claimedKeys.has(entity));
   
   // Sort entities by focus area if specified
   const sortedEntities = focusArea ? sortEntitiesByFocus(entities, focusArea, analysis.detectedContext) : entities;
@@ -95,7 +131,7 @@ export function generateUI(
   // Add charts for nested objects based on preference
   if (chartPreference !== 'Simple breakdown') {
     const nestedKeys = Object.keys(data).filter(
-      k => typeof data[k] === 'object' && !Array.isArray(data[k]) && data[k] !== null
+      k => typeof data[k] === 'object' && !Array.isArray(data[k]) && data[k] !== null && !claimedKeys.has(k)
     );
     
     for (const key of nestedKeys) {
@@ -126,7 +162,10 @@ export function generateUI(
   // Validate before returning
   const validation = validateSchema(schema);
   if (!validation.valid) {
-    console.warn('Schema validation warnings:', validation.errors);
+    console.warn('Schema validation errors:', validation.errors);
+  }
+  if (validation.warnings.length > 0) {
+    console.warn('Schema validation warnings:', validation.warnings);
   }
 
   return schema;
@@ -441,6 +480,21 @@ function buildChartSection(name: string, data: Record<string, any>, colspan: num
   };
 }
 
+// Build section for a data key claimed by a registered custom component
+function buildCustomSection(name: string, value: unknown, colspan: number): ComponentSchema | null {
+  for (const type of COMPONENT_TYPES) {
+    const props = COMPONENT_REGISTRY[type].fromData?.(name, value);
+    if (props) {
+      return {
+        component: 'Card',
+        props: { title: formatLabel(name), colspan },
+        children: [{ component: type, props }]
+      };
+    }
+  }
+  return null;
+}
+
 // Build breakdown as table
 function buildBreakdownTable(name: string, data: Record<string, any>): ComponentSchema {
   return {
@@ -473,7 +527,7 @@ function guessTrend(key: string): 'up' | 'down' | 'neutral' {
 }
 
 // Utility: format key to label
-function formatLabel(key: string): string {
+export function formatLabel(key: string): string {
   return key
     .replace(/_/g, ' ')
     .replace(/([A-Z])/g, ' $1')
@@ -504,6 +558,7 @@ export function createUIState(
 ): UIState {
   return {
     version: '1.0.0',
+    revision: 0,
     contextHash: hashContext(contextOrData),
     schema,
     createdAt: new Date().toISOString(),
@@ -512,30 +567,100 @@ export function createUIState(
 }
 
 // Apply evolution (diff) to existing state
+// Returns a new state - the given state is left untouched, and unchanged
+// subtrees of the schema are shared with it. Throws a PatchError if the
+// diff can't be applied.
 export function evolveUI(
   state: UIState,
   operation: EvolutionDiff['operation'],
   path: string,
-  value?: ComponentSchema
+  value?: ComponentSchema,
+  from?: string
 ): UIState {
-  const newVersion = incrementVersion(state.version);
-
-  // Store diff in history
-  const diff: EvolutionDiff = { operation, path, value };
-  state.history.push({
+  const diff: EvolutionDiff = { operation, path, value, from };
+  const schema = applyPatch(state.schema, diff);
+  // A fresh number, so a change made after an undo doesn't take the undone version's id
+  const revision = state.revision + 1;
+  const version = withPatch(state.version, revision);
+
+  // Store diff (and how to undo it) in history
+  const entry: HistoryEntry = {
     version: state.version,
+    nextVersion: version,
     diff,
+    inverse: invertPatch(state.schema, diff),
     timestamp: new Date().toISOString()
-  });
+  };
+
+  return {
+    ...state,
+    schema,
+    version,
+    revision,
+    history: [...state.history, entry],
+    // A new change starts a new branch - undone entries can no longer be redone
+    future: []
+  };
+}
+
+// Step back one version by applying the inverse of the last diff
+export function undoUI(state: UIState): UIState {
+  const entry = state.history[state.history.length - 1];
+  if (!entry) return state;
+
+  return {
+    ...state,
+    schema: applyPatch(state.schema, entry.inverse),
+    version: entry.version,
+    history: state.history.slice(0, -1),
+    future: [...(state.future || []), entry]
+  };
+}
+
+// Re-apply the most recently undone diff
+export function redoUI(state: UIState): UIState {
+  const future = state.future || [];
+  const entry = future[future.length - 1];
+  if (!entry) return state;
+
+  return {
+    ...state,
+    schema: applyPatch(state.schema, entry.diff),
+    version: entry.nextVersion,
+    history: [...state.history, entry],
+    future: future.slice(0, -1)
+  };
+}
 
-  // Apply diff to schema (simplified - real impl would parse path)
-  if (operation === 'add' && value) {
-    state.schema.children = state.schema.children || [];
-    state.schema.children.push(value);
+// All versions reachable from this state, oldest first
+export function listVersions(state: UIState): string[] {
+  const future = state.future || [];
+  return [
+    ...state.history.map(entry => entry.version),
+    state.version,
+    ...[...future].reverse().map(entry => entry.nextVersion)
+  ];
+}
+
+// Time-travel to any recorded version by undoing or redoing diffs
+export function checkoutVersion(state: UIState, version: string): UIState {
+  const versions = listVersions(state);
+  const target = versions.indexOf(version);
+  if (target === -1) {
+    throw new Error(`Unknown version: ${version}`);
   }
 
-  state.version = newVersion;
-  return state;
+  let current = state;
+  let position = versions.indexOf(state.version);
+  while (position > target) {
+    current = undoUI(current);
+    position--;
+  }
+  while (position < target) {
+    current = redoUI(current);
+    position++;
+  }
+  return current;
 }
 
 function hashContext(contextOrData: InputContext | Record<string, any>): string {
@@ -550,9 +675,21 @@ function hashContext(contextOrData: InputContext | Record<string, any>): string
   return Math.abs(hash).toString(36).substring(0, 12);
 }
 
-function incrementVersion(version: string): string {
-  const [major, minor, patch] = version.split('.').map(Number);
-  return `${major}.${minor}.${patch + 1}`;
+// `version` with another patch number, e.g. ("1.0.3", 7) -> "1.0.7"
+function withPatch(version: string, patch: number): string {
+  const [major, minor] = version.split('.');
+  return `${major}.${minor}.${patch}`;
+}
+
+// Attempts from LLM_MAX_ATTEMPTS, ignoring values that aren't a positive integer
+function maxAttemptsFromEnv(): number {
+  const value = process.env.LLM_MAX_ATTEMPTS;
+  if (value === undefined || value === '') return 3;
+
+  const attempts = Number(value);
+  if (Number.isInteger(attempts) && attempts > 0) return attempts;
+  console.warn(`[Generator] Ignoring LLM_MAX_ATTEMPTS=${value}, expected a positive integer`);
+  return 3;
 }
 
 // AI-powered UI generation with fallback to rule-based generation
@@ -560,13 +697,23 @@ export async function generateUIWithAI(
   data: Record<string, any>,
   analysis: ContextAnalysis,
   answers?: UserAnswers,
-  apiKey?: string
+  provider?: LLMProvider | string,  // Provider or Gemini API key
+  options: GenerateUIOptions = {}
 ): Promise<{
   schema?: ComponentSchema;
   needsQuestions: boolean;
   questions?: Question[];
+  repairs?: string[];
+  attempts?: GenerationAttempt[];
   reasoning?: string;
+  promptVersion?: string;  // Prompt that produced the result, e.g. generation@1
+  fallback?: boolean;  // Rule-based result because AI generation failed
 }> {
+  const maxAttempts = options.maxAttempts ?? maxAttemptsFromEnv();
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new Error(`maxAttempts must be a positive integer, got ${maxAttempts}`);
+  }
+
   try {
     console.log('[Generator] Attempting AI-powered UI generation...', {
       dataKeys: Object.keys(data),
@@ -574,8 +721,8 @@ export async function generateUIWithAI(
       hasAnswers: !!answers
     });
 
-    // Call Gemini to generate schema or questions
-    const aiResponse = await generateSchemaWithGemini(data, analysis, answers, apiKey);
+    // Call the LLM to generate schema or questions
+    const aiResponse = await generateSchemaWithAI(data, analysis, answers, provider, options);
 
     console.log('[Generator] AI response received:', {
       needsQuestions: aiResponse.needsQuestions,
@@ -592,7 +739,8 @@ export async function generateUIWithAI(
       return {
         needsQuestions: true,
         questions: aiResponse.questions,
-        reasoning: aiResponse.reasoning
+        reasoning: aiResponse.reasoning,
+        promptVersion: aiResponse.promptVersion
       };
     } else if (aiResponse.schema) {
       // AI generated schema directly
@@ -600,16 +748,58 @@ export async function generateUIWithAI(
 
       console.log('[Generator] Schema structure:', JSON.stringify(aiResponse.schema, null, 2).substring(0, 500));
 
-      // Validate the schema
-      const validation = validateSchema(aiResponse.schema);
-      if (!validation.valid) {
-        console.warn('[Generator] AI-generated schema has validation warnings:', validation.errors);
+      const attempts: GenerationAttempt[] = [];
+      let response = aiResponse;
+      let best: { schema: ComponentSchema; repairs: string[]; errors: string[]; reasoning?: string; promptVersion: string } | null = null;
+
+      // Repair what can be fixed deterministically, then send whatever is still wrong
+      // back to the model until the schema is clean or we run out of attempts
+      for (let attempt = 1; ; attempt++) {
+        const { schema, repairs } = repairSchema(response.schema as ComponentSchema, data, analysis, answers || {});
+        if (repairs.length > 0) {
+          console.log(`[Generator] Repaired AI-generated schema (attempt ${attempt}):`, repairs);
+        }
+
+        const errors = findSchemaErrors(schema, data);
+        attempts.push({ attempt, errors, promptVersion: response.promptVersion });
+        if (!best || errors.length < best.errors.length) {
+          best = { schema, repairs, errors, reasoning: response.reasoning, promptVersion: response.promptVersion };
+        }
+
+        if (errors.length === 0 || attempt >= maxAttempts) break;
+
+        console.warn(`[Generator] AI-generated schema has errors (attempt ${attempt}), asking for a correction:`, errors);
+        try {
+          response = await generateCorrectionWithAI(schema, errors, data, analysis, answers, provider, {
+            tokenBudget: options.tokenBudget,
+            schemaDepth: options.schemaDepth
+          });
+        } catch (error) {
+          console.warn('[Generator] Correction request failed:', describeFailure(error));
+          break;
+        }
+        if (!response.schema) {
+          console.warn('[Generator] Correction response contained no schema');
+          break;
+        }
+      }
+
+      if (best.errors.length > 0) {
+        console.warn(`[Generator] Giving up after ${attempts.length} attempt(s), using the schema with the fewest errors:`, best.errors);
+      }
+
+      const validation = validateSchema(best.schema);
+      if (validation.warnings.length > 0) {
+        console.warn('[Generator] AI-generated schema has validation warnings:', validation.warnings);
       }
 
       return {
         needsQuestions: false,
-        schema: aiResponse.schema,
-        reasoning: aiResponse.reasoning
+        schema: best.schema,
+        repairs: best.repairs,
+        attempts,
+        reasoning: best.reasoning,
+        promptVersion: best.promptVersion
       };
     } else if (!aiResponse.needsQuestions) {
       // AI said no questions needed but didn't provide schema - generate with rules
@@ -618,14 +808,15 @@ export async function generateUIWithAI(
       return {
         needsQuestions: false,
         schema,
-        reasoning: aiResponse.reasoning || 'AI provided no schema, used rule-based generation'
+        reasoning: aiResponse.reasoning || 'AI provided no schema, used rule-based generation',
+        promptVersion: aiResponse.promptVersion
       };
     } else {
       console.error('[Generator] Invalid AI response structure:', JSON.stringify(aiResponse, null, 2));
       throw new Error('Invalid AI response: neither questions nor schema provided');
     }
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
+    const errorMessage = describeFailure(error);
     console.warn('[Generator] AI generation failed, falling back to rule-based generation:', errorMessage);
 
     // Fallback to rule-based generation
@@ -635,7 +826,49 @@ export async function generateUIWithAI(
     return {
       needsQuestions: false,
       schema,
-      reasoning: `Generated using rule-based fallback (${errorMessage})`
+      reasoning: `Generated using rule-based fallback (${errorMessage})`,
+      fallback: true
     };
   }
 }
+
+// Validation errors plus binding problems - everything a correction request should fix
+function findSchemaErrors(schema: ComponentSchema, data: Record<string, unknown>): string[] {
+  const { errors } = validateSchema(schema);
+  const { issues } = validateBindings(schema, data);
+  return [...errors, ...issues.map(issue => `${issue.path}: ${issue.message}`)];
+}
+
+// Evolve an existing UI from a natural-language instruction.
+// The model returns diffs which are applied through evolveUI, so every change is
+// recorded in history. Either all diffs apply or the original state is kept
+// (a PatchError is thrown).
+export async function evolveUIWithAI(
+  state: UIState,
+  data: Record<string, any>,
+  instruction: string,
+  provider?: LLMProvider | string
+): Promise<{
+  state: UIState;
+  diffs: EvolutionDiff[];
+  reasoning?: string;
+  promptVersion?: string;
+}> {
+  console.log('[Generator] Requesting AI evolution:', { version: state.version, instruction });
+
+  const aiResponse = await generateEvolutionWithAI(state.schema, data, instruction, provider);
+  const diffs = aiResponse.diffs as EvolutionDiff[];
+
+  if (diffs.length === 0) {
+    return { state, diffs, reasoning: aiResponse.reasoning || 'No changes were needed', promptVersion: aiResponse.promptVersion };
+  }
+
+  const evolved = diffs.reduce(
+    (current, diff) => evolveUI(current, diff.operation, diff.path, diff.value, diff.from),
+    state
+  );
+
+  console.log('[Generator] Applied AI evolution:', { from: state.version, to: evolved.version, diffs: diffs.length });
+
+  return { state: evolved, diffs, reasoning: aiResponse.reasoning, promptVersion: aiResponse.promptVersion };
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LLMError, LLMProvider } from './llm';
+import { withResilience } from './llm-resilience';
+
+// Short delays so retries don't slow the tests down
+const FAST = { baseDelayMs: 1, maxDelayMs: 20, timeoutMs: 1_000 };
+
+let providerCount = 0;
+
+// A provider that fails with the given errors first, then answers { ok: true }.
+// Each one gets a fresh name: circuits are shared by provider name.
+function flakyProvider(...failures: LLMError[]) {
+  const generateJSON = vi.fn(async () => {
+    const failure = failures.shift();
+    if (failure) throw failure;
+    return { ok: true };
+  });
+  return { name: `flaky-${++providerCount}`, generateJSON } satisfies LLMProvider;
+}
+
+const rateLimited = () => new LLMError('Rate limited', 'rate_limited', { status: 429 });
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('withResilience', () => {
+  it('retries transient failures until a call succeeds', async () => {
+    const provider = flakyProvider(rateLimited(), new LLMError('Bad gateway', 'unavailable', { status: 502 }));
+
+    await expect(withResilience(provider, FAST).generateJSON('prompt')).resolves.toEqual({ ok: true });
+    expect(provider.generateJSON).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry rejected requests', async () => {
+    const provider = flakyProvider(new LLMError('Bad schema', 'rejected', { status: 400 }));
+
+    await expect(withResilience(provider, FAST).generateJSON('prompt')).rejects.toMatchObject({ reason: 'rejected', attempts: 1 });
+    expect(provider.generateJSON).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after maxRetries and reports the attempts', async () => {
+    const provider = flakyProvider(rateLimited(), rateLimited(), rateLimited());
+
+    await expect(withResilience(provider, { ...FAST, maxRetries: 2 }).generateJSON('prompt'))
+      .rejects.toMatchObject({ reason: 'rate_limited', attempts: 3 });
+    expect(provider.generateJSON).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up at once when Retry-After is longer than maxDelayMs', async () => {
+    const provider = flakyProvider(new LLMError('Rate limited', 'rate_limited', { retryAfterMs: 60_000 }));
+
+    await expect(withResilience(provider, FAST).generateJSON('prompt')).rejects.toMatchObject({ attempts: 1 });
+  });
+
+  it('times out attempts that take too long', async () => {
+    const provider: LLMProvider = {
+      name: `slow-${++providerCount}`,
+      generateJSON: (_prompt, _schema, options) => new Promise((_resolve, reject) => {
+        options?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      })
+    };
+
+    await expect(withResilience(provider, { ...FAST, timeoutMs: 10, maxRetries: 0 }).generateJSON('prompt'))
+      .rejects.toMatchObject({ reason: 'timeout' });
+  });
+
+  it('opens the circuit after repeated failed calls and closes it after resetMs', async () => {
+    const provider = flakyProvider(rateLimited(), rateLimited());
+    const options = { ...FAST, maxRetries: 0, failureThreshold: 2, resetMs: 50 };
+
+    await expect(withResilience(provider, options).generateJSON('prompt')).rejects.toMatchObject({ reason: 'rate_limited' });
+    await expect(withResilience(provider, options).generateJSON('prompt')).rejects.toMatchObject({ reason: 'rate_limited' });
+
+    // Open: fails fast without calling the model, also through a new wrapper
+    await expect(withResilience(provider, options).generateJSON('prompt')).rejects.toMatchObject({ reason: 'circuit_open' });
+    expect(provider.generateJSON).toHaveBeenCalledTimes(2);
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+    await expect(withResilience(provider, options).generateJSON('prompt')).resolves.toEqual({ ok: true });
+  });
+
+  it('does not count rejected requests against the circuit', async () => {
+    const provider = flakyProvider(...Array.from({ length: 3 }, () => new LLMError('Bad schema', 'rejected')));
+    const resilient = withResilience(provider, { ...FAST, failureThreshold: 2 });
+
+    for (let i = 0; i < 3; i++) {
+      await expect(resilient.generateJSON('prompt')).rejects.toMatchObject({ reason: 'rejected' });
+    }
+    await expect(resilient.generateJSON('prompt')).resolves.toEqual({ ok: true });
+  });
+});
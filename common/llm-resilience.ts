@@ -0,0 +1,196 @@
+// LLM Resilience - Timeouts, retries and a circuit breaker around any LLMProvider
+// Transient failures (429, 408/5xx, timeouts, dropped connections) are retried with
+// exponential backoff and jitter, honouring Retry-After. After repeated failed calls
+// the circuit opens and calls fail fast until it has had time to recover.
+
+import { LLMError, LLMProvider, GenerateJSONOptions, JSONSchema } from './llm';
+
+export interface ResilienceOptions {
+  timeoutMs?: number;         // Per attempt; for streams, the longest gap between chunks (default 60s)
+  maxRetries?: number;        // Retries after the first attempt (default 3)
+  baseDelayMs?: number;       // First backoff delay, doubled on every retry (default 500ms)
+  maxDelayMs?: number;        // Longest wait between attempts; a longer Retry-After gives up instead (default 10s)
+  failureThreshold?: number;  // Consecutive failed calls that open the circuit (default 3)
+  resetMs?: number;           // How long the circuit stays open (default 30s)
+}
+
+interface CircuitState {
+  failures: number;
+  openUntil: number;
+}
+
+// Circuits are shared by provider name, so they survive across requests
+const circuits = new Map<string, CircuitState>();
+
+// Wrap a provider with timeouts, retries and a circuit breaker
+export function withResilience(provider: LLMProvider, options: ResilienceOptions = {}): LLMProvider {
+  const {
+    timeoutMs = 60_000,
+    maxRetries = 3,
+    baseDelayMs = 500,
+    maxDelayMs = 10_000,
+    failureThreshold = 3,
+    resetMs = 30_000
+  } = options;
+
+  const circuit = circuits.get(provider.name) || { failures: 0, openUntil: 0 };
+  circuits.set(provider.name, circuit);
+
+  const checkCircuit = () => {
+    const remaining = circuit.openUntil - Date.now();
+    if (remaining > 0) {
+      throw new LLMError(`Circuit open for ${provider.name}`, 'circuit_open', { retryAfterMs: remaining });
+    }
+  };
+
+  const recordFailure = () => {
+    circuit.failures++;
+    if (circuit.failures >= failureThreshold) {
+      circuit.openUntil = Date.now() + resetMs;
+      console.warn(`[AI] Circuit opened for ${provider.name} after ${circuit.failures} failed calls`);
+    }
+  };
+
+  const recordSuccess = () => {
+    circuit.failures = 0;
+    circuit.openUntil = 0;
+  };
+
+  // Delay before the next attempt, or null if it isn't worth waiting for
+  const retryDelay = (attempt: number, error: LLMError): number | null => {
+    if (attempt >= maxRetries || !isTransient(error)) return null;
+    const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    const delay = Math.max(exponential / 2 + Math.random() * exponential / 2, error.retryAfterMs ?? 0);
+    return delay <= maxDelayMs ? delay : null;
+  };
+
+  // Each attempt gets its own abort controller, linked to the caller's signal
+  const startAttempt = (callerOptions: GenerateJSONOptions = {}) => {
+    const controller = new AbortController();
+    const signal = callerOptions.signal ? AbortSignal.any([callerOptions.signal, controller.signal]) : controller.signal;
+    let timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    return {
+      options: { ...callerOptions, signal },
+      resetTimer: () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => controller.abort(), timeoutMs);
+      },
+      finish: () => clearTimeout(timer),
+      // The error as an LLMError, or null if it isn't a model failure (e.g. unparseable
+      // output, or the caller aborted) and should be rethrown unchanged
+      classify: (error: unknown): LLMError | null => {
+        if (callerOptions.signal?.aborted) return null;
+        if (controller.signal.aborted) return new LLMError(`Timed out after ${timeoutMs}ms`, 'timeout');
+        return error instanceof LLMError ? error : null;
+      }
+    };
+  };
+
+  // Give up: count the failure against the circuit and report how many attempts were made
+  const giveUp = (error: LLMError, attempt: number): LLMError => {
+    if (isTransient(error)) recordFailure();
+    error.attempts = attempt + 1;
+    return error;
+  };
+
+  return {
+    name: provider.name,
+    schemaFeatures: provider.schemaFeatures,
+    async generateJSON(prompt: string, schema?: JSONSchema, callerOptions?: GenerateJSONOptions) {
+      checkCircuit();
+
+      for (let attempt = 0; ; attempt++) {
+        const current = startAttempt(callerOptions);
+        try {
+          const result = await provider.generateJSON(prompt, schema, current.options);
+          recordSuccess();
+          return result;
+        } catch (error) {
+          const failure = current.classify(error);
+          if (!failure) throw error;
+
+          const delay = retryDelay(attempt, failure);
+          if (delay === null) throw giveUp(failure, attempt);
+
+          console.warn(`[AI] ${failure.message} - retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`);
+          await sleep(delay);
+        } finally {
+          current.finish();
+        }
+      }
+    },
+    // Only retried until the first chunk arrives - after that the caller has seen output
+    streamJSON: provider.streamJSON && (async function* (prompt: string, schema?: JSONSchema, callerOptions?: GenerateJSONOptions) {
+      checkCircuit();
+
+      for (let attempt = 0; ; attempt++) {
+        const current = startAttempt(callerOptions);
+        let started = false;
+        try {
+          for await (const chunk of provider.streamJSON!(prompt, schema, current.options)) {
+            current.resetTimer();
+            started = true;
+            yield chunk;
+          }
+          recordSuccess();
+          return;
+        } catch (error) {
+          const failure = current.classify(error);
+          if (!failure) throw error;
+
+          const delay = started ? null : retryDelay(attempt, failure);
+          if (delay === null) throw giveUp(failure, attempt);
+
+          console.warn(`[AI] ${failure.message} - retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`);
+          await sleep(delay);
+        } finally {
+          current.finish();
+        }
+      }
+    })
+  };
+}
+
+// Options from LLM_TIMEOUT_MS / LLM_MAX_RETRIES (unset values keep the defaults)
+export function resilienceOptionsFromEnv(): ResilienceOptions {
+  const number = (value: string | undefined) => (value && !isNaN(Number(value)) ? Number(value) : undefined);
+  return {
+    timeoutMs: number(process.env.LLM_TIMEOUT_MS),
+    maxRetries: number(process.env.LLM_MAX_RETRIES)
+  };
+}
+
+// Short, human-readable reason for a failed model call, e.g. "rate-limited after 3 retries"
+export function describeFailure(error: unknown): string {
+  if (!(error instanceof LLMError)) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  const retries = error.attempts - 1;
+  const afterRetries = retries > 0 ? ` after ${retries} ${retries === 1 ? 'retry' : 'retries'}` : '';
+
+  switch (error.reason) {
+    case 'rate_limited':
+      return `rate-limited${afterRetries}`;
+    case 'unavailable':
+      return `model unavailable (HTTP ${error.status})${afterRetries}`;
+    case 'timeout':
+      return `timed out${afterRetries}`;
+    case 'network':
+      return `network error${afterRetries}`;
+    case 'circuit_open':
+      return `model temporarily disabled after repeated failures, retrying in ${Math.ceil((error.retryAfterMs ?? 0) / 1000)}s`;
+    case 'rejected':
+      return `request rejected (HTTP ${error.status})`;
+  }
+}
+
+// Failures that may succeed if tried again
+function isTransient(error: LLMError): boolean {
+  return error.reason !== 'rejected' && error.reason !== 'circuit_open';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
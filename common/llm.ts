@@ -0,0 +1,388 @@
+// LLM Providers - Model-agnostic JSON generation
+// The AI pipeline only talks to an LLMProvider. Gemini is the default; an
+// OpenAI-compatible provider covers local servers (llama.cpp, Ollama, vLLM) and
+// the fixture provider replays recorded responses for offline development.
+
+// Subset of JSON Schema used for structured output
+export interface JSONSchema {
+  type?: string;
+  description?: string;
+  enum?: string[];
+  items?: JSONSchema;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  anyOf?: JSONSchema[];
+  $ref?: string;
+  $defs?: Record<string, JSONSchema>;
+  additionalProperties?: boolean | JSONSchema;
+}
+
+// Structured output features a backend accepts. Providers that leave them out are
+// assumed to support neither (see common/structured-output.ts).
+export interface SchemaFeatures {
+  refs: boolean;    // $ref / $defs, i.e. recursive schemas
+  unions: boolean;  // anyOf
+}
+
+export interface GenerateJSONOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;  // Aborts the request (used for timeouts)
+}
+
+// A failed model call. `reason` tells transient failures (worth retrying) apart
+// from requests the backend rejected.
+export class LLMError extends Error {
+  reason: 'rate_limited' | 'unavailable' | 'timeout' | 'network' | 'rejected' | 'circuit_open';
+  status?: number;
+  retryAfterMs?: number;  // From the Retry-After header
+  attempts: number;       // Set by the retry wrapper once it gives up
+
+  constructor(
+    message: string,
+    reason: LLMError['reason'],
+    { status, retryAfterMs }: { status?: number; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = 'LLMError';
+    this.reason = reason;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.attempts = 1;
+  }
+}
+
+export interface LLMProvider {
+  name: string;  // e.g. "gemini:gemini-3-flash-preview" - used in logs and cache keys
+  schemaFeatures?: SchemaFeatures;
+  // Generate a JSON value for the prompt. When a schema is given the provider
+  // constrains the output to it (if the backend supports structured output).
+  generateJSON(prompt: string, schema?: JSONSchema, options?: GenerateJSONOptions): Promise<unknown>;
+  // Optional: yield the raw JSON text as it is generated. Callers fall back to
+  // generateJSON for providers that can't stream.
+  streamJSON?(prompt: string, schema?: JSONSchema, options?: GenerateJSONOptions): AsyncIterable<string>;
+}
+
+export interface GeminiProviderConfig {
+  apiKey: string;
+  model?: string;
+}
+
+// Google Gemini via the generateContent REST API
+export function createGeminiProvider({ apiKey, model = 'gemini-3-flash-preview' }: GeminiProviderConfig): LLMProvider {
+  const request = async (method: string, prompt: string, schema?: JSONSchema, options: GenerateJSONOptions = {}) => {
+    // The key goes in a header so it never shows up in URLs or request logs
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}`;
+
+    const generationConfig: Record<string, unknown> = {
+      temperature: options.temperature ?? 0.3,
+      topK: 40,
+      topP: 0.95,
+      maxOutputTokens: options.maxOutputTokens ?? 8192,
+      responseMimeType: 'application/json'
+    };
+    if (schema) generationConfig.responseSchema = schema;
+
+    const response = await fetchModel(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey,
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [{
+            text: prompt
+          }]
+        }],
+        generationConfig
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('[AI] Gemini API error response:', errorText);
+      throw errorForResponse('Gemini API error', response);
+    }
+
+    return response;
+  };
+
+  return {
+    name: `gemini:${model}`,
+    schemaFeatures: { refs: false, unions: false },
+    async generateJSON(prompt, schema, options) {
+      const result = await (await request('generateContent', prompt, schema, options)).json();
+      console.log('[AI] Gemini finish reason:', result.candidates?.[0]?.finishReason);
+
+      const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (!text) {
+        throw new Error('No response from Gemini API');
+      }
+
+      return parseJSONResponse(text);
+    },
+    async *streamJSON(prompt, schema, options) {
+      const response = await request('streamGenerateContent?alt=sse', prompt, schema, options);
+      for await (const event of readServerSentEvents(response)) {
+        const text = JSON.parse(event).candidates?.[0]?.content?.parts?.[0]?.text;
+        if (text) yield text;
+      }
+    }
+  };
+}
+
+export interface OpenAICompatibleProviderConfig {
+  baseUrl?: string;          // e.g. "http://localhost:8080/v1" for llama.cpp
+  model: string;
+  apiKey?: string;
+  structuredOutput?: boolean; // Send the schema as response_format json_schema (default true)
+  schemaFeatures?: SchemaFeatures; // What the server's json_schema support covers (default: $ref and anyOf)
+}
+
+// Any server implementing the OpenAI chat completions API
+export function createOpenAICompatibleProvider({
+  baseUrl = 'http://localhost:11434/v1',
+  model,
+  apiKey,
+  structuredOutput = true,
+  schemaFeatures = { refs: true, unions: true }
+}: OpenAICompatibleProviderConfig): LLMProvider {
+  const request = async (prompt: string, schema: JSONSchema | undefined, options: GenerateJSONOptions = {}, stream: boolean) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const response = await fetchModel(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature ?? 0.3,
+        max_tokens: options.maxOutputTokens ?? 8192,
+        stream,
+        response_format: schema && structuredOutput
+          ? { type: 'json_schema', json_schema: { name: 'response', schema } }
+          : { type: 'json_object' }
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('[AI] LLM API error response:', errorText);
+      throw errorForResponse('LLM API error', response);
+    }
+
+    return response;
+  };
+
+  return {
+    name: `openai:${model}`,
+    schemaFeatures,
+    async generateJSON(prompt, schema, options) {
+      const result = await (await request(prompt, schema, options, false)).json();
+      const text = result.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error('No response from LLM API');
+      }
+
+      return parseJSONResponse(text);
+    },
+    async *streamJSON(prompt, schema, options) {
+      const response = await request(prompt, schema, options, true);
+      for await (const event of readServerSentEvents(response)) {
+        if (event === '[DONE]') break;
+        const text = JSON.parse(event).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    }
+  };
+}
+
+export interface LLMFixture {
+  promptHash?: string;  // Exact prompt, as recorded by createRecordingProvider
+  match?: string;       // Or any prompt containing this text
+  response: unknown;
+}
+
+// Replays recorded responses - deterministic and offline.
+// Exact prompt hashes win over substring matches; unmatched prompts throw.
+export function createFixtureProvider(fixtures: LLMFixture[], name: string = 'fixture'): LLMProvider {
+  const generateJSON = async (prompt: string) => {
+    const hash = hashPrompt(prompt);
+    const fixture =
+      fixtures.find(entry => entry.promptHash === hash) ||
+      fixtures.find(entry => entry.match !== undefined && prompt.includes(entry.match));
+
+    if (!fixture) {
+      throw new Error(`No fixture for prompt ${hash}`);
+    }
+
+    return structuredClone(fixture.response);
+  };
+
+  return {
+    name: `fixture:${name}`,
+    generateJSON,
+    // Replays the response text in small chunks, like a streaming model would
+    async *streamJSON(prompt) {
+      const text = JSON.stringify(await generateJSON(prompt));
+      for (let i = 0; i < text.length; i += FIXTURE_CHUNK_SIZE) {
+        yield text.substring(i, i + FIXTURE_CHUNK_SIZE);
+      }
+    }
+  };
+}
+
+const FIXTURE_CHUNK_SIZE = 64;
+
+// Wrap a provider and record every response as a fixture for later replay
+export function createRecordingProvider(provider: LLMProvider): LLMProvider & { fixtures: LLMFixture[] } {
+  const fixtures: LLMFixture[] = [];
+  return {
+    name: provider.name,
+    schemaFeatures: provider.schemaFeatures,
+    fixtures,
+    async generateJSON(prompt, schema, options) {
+      const response = await provider.generateJSON(prompt, schema, options);
+      fixtures.push({ promptHash: hashPrompt(prompt), response: structuredClone(response) });
+      return response;
+    },
+    streamJSON: provider.streamJSON && (async function* (prompt, schema, options) {
+      let text = '';
+      for await (const chunk of provider.streamJSON!(prompt, schema, options)) {
+        text += chunk;
+        yield chunk;
+      }
+      fixtures.push({ promptHash: hashPrompt(prompt), response: parseJSONResponse(text) });
+    })
+  };
+}
+
+// Provider configured through LLM_PROVIDER / LLM_MODEL / LLM_BASE_URL / LLM_API_KEY
+// (or GEMINI_API_KEY, or LLM_FIXTURE_FILE for the fixture provider), or null when no provider
+// is configured. Throws on an unknown LLM_PROVIDER or an unreadable fixture file. These are
+// server-only variables - never expose them with a NEXT_PUBLIC_ prefix.
+export function createProviderFromEnv(): LLMProvider | null {
+  const provider = process.env.LLM_PROVIDER || 'gemini';
+  const model = process.env.LLM_MODEL || undefined;
+
+  switch (provider) {
+    case 'gemini': {
+      const apiKey = process.env.LLM_API_KEY || process.env.GEMINI_API_KEY;
+      return apiKey ? createGeminiProvider({ apiKey, model }) : null;
+    }
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.LLM_BASE_URL || undefined,
+        model: model || 'llama3.1',
+        apiKey: process.env.LLM_API_KEY || undefined,
+        schemaFeatures: schemaFeaturesFromEnv()
+      });
+    case 'fixture': {
+      const file = process.env.LLM_FIXTURE_FILE;
+      if (!file) throw new Error('LLM_PROVIDER=fixture needs LLM_FIXTURE_FILE');
+      return createFixtureProvider(readFixtureFile(file), file.split(/[\\/]/).pop());
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+}
+
+// A JSON array of fixtures, e.g. the `fixtures` of a recording provider. Read on every call, so
+// edits apply to the next request. getBuiltinModule keeps fs out of the client bundle, which
+// also includes this module.
+function readFixtureFile(file: string): LLMFixture[] {
+  const fs = process.getBuiltinModule('fs');
+  const fixtures = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!Array.isArray(fixtures)) {
+    throw new Error(`${file} must contain a JSON array of fixtures`);
+  }
+  return fixtures;
+}
+
+// LLM_SCHEMA_FEATURES lists what an OpenAI-compatible server supports, e.g. "refs,unions"
+// or "none" (unset keeps the default)
+function schemaFeaturesFromEnv(): SchemaFeatures | undefined {
+  const value = process.env.LLM_SCHEMA_FEATURES;
+  if (!value) return undefined;
+  const features = value.split(',').map(feature => feature.trim());
+  return { refs: features.includes('refs'), unions: features.includes('unions') };
+}
+
+// fetch, with connection failures reported as LLMErrors. Aborts are rethrown as-is
+// so whoever aborted the request can tell why.
+async function fetchModel(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    if (init.signal?.aborted) throw error;
+    throw new LLMError(`Network error: ${error instanceof Error ? error.message : String(error)}`, 'network');
+  }
+}
+
+// Classify a non-2xx response: 429 is a rate limit, 408 and 5xx are transient,
+// anything else means the request itself was rejected
+function errorForResponse(label: string, response: Response): LLMError {
+  const message = `${label}: ${response.status} ${response.statusText}`;
+  const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+
+  if (response.status === 429) {
+    return new LLMError(message, 'rate_limited', { status: response.status, retryAfterMs });
+  }
+  if (response.status === 408 || response.status >= 500) {
+    return new LLMError(message, 'unavailable', { status: response.status, retryAfterMs });
+  }
+  return new LLMError(message, 'rejected', { status: response.status });
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Data payloads of a server-sent events response
+async function* readServerSentEvents(response: Response): AsyncIterable<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop()!;
+    for (const line of lines) {
+      if (line.startsWith('data:')) yield line.substring(5).trim();
+    }
+
+    if (done) return;
+  }
+}
+
+// Extract the JSON object from a model response (strips markdown fences and prose)
+export function parseJSONResponse(text: string): unknown {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('Could not parse JSON from AI response');
+  }
+  return JSON.parse(jsonMatch[0]);
+}
+
+export function hashPrompt(prompt: string): string {
+  let hash = 0;
+  for (let i = 0; i < prompt.length; i++) {
+    hash = ((hash << 5) - hash) + prompt.charCodeAt(i);
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return `${Math.abs(hash).toString(36)}-${prompt.length}`;
+}
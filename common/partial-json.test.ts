@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { isComplete, parsePartialJSON } from './partial-json';
+
+describe('parsePartialJSON', () => {
+  it('parses a complete document', () => {
+    const partial = parsePartialJSON('{"a": [1, 2], "b": {"c": "d"}}')!;
+    expect(partial.value).toEqual({ a: [1, 2], b: { c: 'd' } });
+    expect(isComplete(partial, partial.value)).toBe(true);
+  });
+
+  it('returns null until an object starts, skipping text before it', () => {
+    expect(parsePartialJSON('```json\n')).toBeNull();
+    expect(parsePartialJSON('```json\n{"a": 1}')!.value).toEqual({ a: 1 });
+  });
+
+  it('closes unfinished objects and arrays and marks them incomplete', () => {
+    const partial = parsePartialJSON('{"done": {"x": 1}, "items": [{"id": 1}, {"id": 2')!;
+    const value = partial.value as { done: object; items: object[] };
+
+    expect(value).toEqual({ done: { x: 1 }, items: [{ id: 1 }, {}] });
+    expect(isComplete(partial, value)).toBe(false);
+    expect(isComplete(partial, value.done)).toBe(true);
+    expect(isComplete(partial, value.items[0])).toBe(true);
+    expect(isComplete(partial, value.items)).toBe(false);
+    expect(isComplete(partial, value.items[1])).toBe(false);
+  });
+
+  it('leaves out values that are still being written', () => {
+    expect(parsePartialJSON('{"name": "Ada Lov')!.value).toEqual({});
+    expect(parsePartialJSON('{"count": 12')!.value).toEqual({});
+    expect(parsePartialJSON('{"count": 12,')!.value).toEqual({ count: 12 });
+    expect(parsePartialJSON('{"ok": tr')!.value).toEqual({});
+    expect(parsePartialJSON('{"na')!.value).toEqual({});
+  });
+
+  it('decodes escapes, waiting for a complete \\u sequence', () => {
+    expect(parsePartialJSON('{"s": "a\\"b\\n\\u00e9"}')!.value).toEqual({ s: 'a"b\né' });
+    expect(parsePartialJSON('{"s": "\\u00')!.value).toEqual({});
+  });
+});
@@ -0,0 +1,131 @@
+// Partial JSON Parser - Parses the prefix of a JSON document as it streams in
+// Unfinished objects and arrays are closed and recorded in `incomplete`; a value
+// that is still being written (string, number, literal) is left out entirely.
+
+export interface PartialJSON {
+  value: unknown;
+  incomplete: WeakSet<object>;  // Objects/arrays whose closing bracket hasn't arrived yet
+}
+
+// Marks a value that hasn't fully arrived
+const MISSING = Symbol('missing');
+
+// Parse as much of the text as possible, starting at the first "{" (markdown
+// fences and prose before it are skipped). Returns null if no object has started.
+export function parsePartialJSON(text: string): PartialJSON | null {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  const incomplete = new WeakSet<object>();
+  let position = start;
+
+  const skipWhitespace = () => {
+    while (position < text.length && /\s/.test(text[position])) position++;
+  };
+
+  const parseString = (): string | typeof MISSING => {
+    let result = '';
+    position++; // opening quote
+    while (position < text.length) {
+      const char = text[position];
+      if (char === '"') {
+        position++;
+        return result;
+      }
+      if (char === '\\') {
+        if (position + 1 >= text.length) return MISSING;
+        const escaped = text[position + 1];
+        if (escaped === 'u') {
+          const hex = text.substring(position + 2, position + 6);
+          if (hex.length < 4) return MISSING;
+          result += String.fromCharCode(parseInt(hex, 16));
+          position += 6;
+        } else {
+          result += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escaped] ?? escaped;
+          position += 2;
+        }
+        continue;
+      }
+      result += char;
+      position++;
+    }
+    return MISSING;
+  };
+
+  // Numbers and literals are only final once something follows them
+  const parseScalar = (): unknown => {
+    const match = text.substring(position).match(/^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/);
+    if (!match || position + match[0].length >= text.length) return MISSING;
+    position += match[0].length;
+    return JSON.parse(match[0]);
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    if (position >= text.length) return MISSING;
+
+    const char = text[position];
+    if (char === '{') return parseObject();
+    if (char === '[') return parseArray();
+    if (char === '"') return parseString();
+    return parseScalar();
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    position++; // {
+
+    while (true) {
+      skipWhitespace();
+      if (text[position] === '}') {
+        position++;
+        return result;
+      }
+      if (text[position] === ',') {
+        position++;
+        skipWhitespace();
+      }
+      if (text[position] !== '"') break;
+
+      const key = parseString();
+      skipWhitespace();
+      if (key === MISSING || text[position] !== ':') break;
+      position++;
+
+      const value = parseValue();
+      if (value === MISSING) break;
+      result[key] = value;
+    }
+
+    incomplete.add(result);
+    return result;
+  };
+
+  const parseArray = (): unknown[] => {
+    const result: unknown[] = [];
+    position++; // [
+
+    while (true) {
+      skipWhitespace();
+      if (text[position] === ']') {
+        position++;
+        return result;
+      }
+      if (text[position] === ',') position++;
+
+      const value = parseValue();
+      if (value === MISSING) break;
+      result.push(value);
+    }
+
+    incomplete.add(result);
+    return result;
+  };
+
+  return { value: parseObject(), incomplete };
+}
+
+// Whether a parsed value (and therefore everything inside it) has fully arrived
+export function isComplete(partial: PartialJSON, value: unknown): boolean {
+  return typeof value !== 'object' || value === null || !partial.incomplete.has(value);
+}
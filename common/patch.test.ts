@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentSchema } from './components';
+import type { EvolutionDiff } from './generator';
+import { applyPatch, invertPatch, PatchError } from './patch';
+
+const metric = (label: string): ComponentSchema => ({ component: 'Metric', props: { label, value: 1 } });
+
+const schema: ComponentSchema = {
+  component: 'Container',
+  props: { cols: 2 },
+  children: [
+    { component: 'Card', props: { title: 'Sales' }, children: [metric('Revenue'), metric('Orders')] },
+    metric('Visitors'),
+    metric('Signups')
+  ]
+};
+
+// Apply the diff, then its inverse, and check the original schema comes back
+function roundTrip(diff: EvolutionDiff) {
+  const inverse = invertPatch(schema, diff);
+  const patched = applyPatch(schema, diff);
+  expect(applyPatch(patched, inverse)).toEqual(schema);
+  return patched;
+}
+
+describe('applyPatch / invertPatch', () => {
+  it('round-trips an add at an index and at the end', () => {
+    expect(roundTrip({ operation: 'add', path: '/children/1', value: metric('New') }).children![1]).toEqual(metric('New'));
+    expect(roundTrip({ operation: 'add', path: '/children/0/children/-', value: metric('New') }).children![0].children).toHaveLength(3);
+  });
+
+  it('round-trips a remove', () => {
+    expect(roundTrip({ operation: 'remove', path: '/children/0/children/0' }).children![0].children).toEqual([metric('Orders')]);
+  });
+
+  it('round-trips an update', () => {
+    expect(roundTrip({ operation: 'update', path: '/children/2', value: metric('Churn') }).children![2]).toEqual(metric('Churn'));
+  });
+
+  it('round-trips moves, including into another parent and to the end', () => {
+    expect(roundTrip({ operation: 'move', from: '/children/1', path: '/children/0/children/0' }).children![0].children![0])
+      .toEqual(metric('Visitors'));
+    expect(roundTrip({ operation: 'move', from: '/children/0', path: '/children/-' }).children![2].component).toBe('Card');
+  });
+
+  it('leaves the input untouched and shares unchanged subtrees', () => {
+    const before = structuredClone(schema);
+    const patched = applyPatch(schema, { operation: 'remove', path: '/children/2' });
+
+    expect(schema).toEqual(before);
+    expect(patched.children![0]).toBe(schema.children![0]);
+  });
+
+  it('rejects invalid patches with a reason', () => {
+    const reasonOf = (diff: EvolutionDiff) => {
+      try {
+        applyPatch(schema, diff);
+      } catch (error) {
+        expect(error).toBeInstanceOf(PatchError);
+        return (error as PatchError).reason;
+      }
+      throw new Error('expected a PatchError');
+    };
+
+    expect(reasonOf({ operation: 'remove', path: '/children/9' })).toBe('invalid_path');
+    expect(reasonOf({ operation: 'remove', path: '' })).toBe('invalid_operation');
+    expect(reasonOf({ operation: 'add', path: '/children/-' })).toBe('missing_value');
+    expect(reasonOf({ operation: 'move', from: '/children/0', path: '/children/0/children/0' })).toBe('invalid_operation');
+    expect(reasonOf({ operation: 'update', path: '/children/1', value: { component: 'Metric', props: { label: 'No value' } } }))
+      .toBe('validation_failed');
+  });
+});
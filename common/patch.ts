@@ -0,0 +1,274 @@
+// Schema Patch Engine - Applies EvolutionDiff operations to ComponentSchema trees
+// Paths are JSON-Pointer style over the children arrays, e.g. "/children/1/children/0".
+// The root node is addressed by "" or "/"; "-" as the last index appends (add/move only).
+
+import { ComponentSchema, validateSchema } from './components';
+import type { EvolutionDiff } from './generator';
+
+export class PatchError extends Error {
+  diff: EvolutionDiff;
+  reason: 'invalid_path' | 'missing_value' | 'invalid_operation' | 'validation_failed';
+  errors: string[];
+
+  constructor(
+    message: string,
+    diff: EvolutionDiff,
+    reason: PatchError['reason'],
+    errors: string[] = []
+  ) {
+    super(message);
+    this.name = 'PatchError';
+    this.diff = diff;
+    this.reason = reason;
+    this.errors = errors;
+  }
+}
+
+// Parse a pointer into child indexes ("-" is kept as -1 for append)
+export function parsePath(path: string): number[] {
+  if (path === '' || path === '/') return [];
+  if (!path.startsWith('/')) {
+    throw new Error(`Path must start with "/": ${path}`);
+  }
+
+  const segments = path.substring(1).split('/');
+  if (segments.length % 2 !== 0) {
+    throw new Error(`Path must alternate "children" and an index: ${path}`);
+  }
+
+  const indexes: number[] = [];
+  for (let i = 0; i < segments.length; i += 2) {
+    if (segments[i] !== 'children') {
+      throw new Error(`Unexpected path segment "${segments[i]}" in ${path}`);
+    }
+    const index = segments[i + 1];
+    if (index === '-' && i === segments.length - 2) {
+      indexes.push(-1);
+    } else if (/^(0|[1-9]\d*)$/.test(index)) {
+      indexes.push(Number(index));
+    } else {
+      throw new Error(`Invalid child index "${index}" in ${path}`);
+    }
+  }
+
+  return indexes;
+}
+
+// Build a pointer from child indexes
+export function formatPath(indexes: number[]): string {
+  return indexes.map(i => `/children/${i}`).join('');
+}
+
+// Get the node at a path, or undefined if it doesn't exist
+export function getNodeAtPath(schema: ComponentSchema, path: string): ComponentSchema | undefined {
+  let current: ComponentSchema | undefined = schema;
+  for (const index of parsePath(path)) {
+    current = current?.children?.[index];
+  }
+  return current;
+}
+
+// Apply a single diff to a schema, returning the patched schema.
+// The input is never modified: only nodes along the patched path are copied,
+// unchanged subtrees are shared by reference. Invalid patches throw a PatchError.
+export function applyPatch(schema: ComponentSchema, diff: EvolutionDiff): ComponentSchema {
+  let indexes: number[];
+  try {
+    indexes = parsePath(diff.path);
+  } catch (error) {
+    throw new PatchError((error as Error).message, diff, 'invalid_path');
+  }
+
+  let result: ComponentSchema;
+
+  switch (diff.operation) {
+    case 'add': {
+      if (!diff.value) {
+        throw new PatchError('add requires a value', diff, 'missing_value');
+      }
+      result = insertNode(schema, indexes, diff.value, diff);
+      break;
+    }
+    case 'remove': {
+      if (indexes.length === 0) {
+        throw new PatchError('Cannot remove the root component', diff, 'invalid_operation');
+      }
+      result = removeNode(schema, indexes, diff).root;
+      break;
+    }
+    case 'update': {
+      if (!diff.value) {
+        throw new PatchError('update requires a value', diff, 'missing_value');
+      }
+      result = replaceNode(schema, indexes, diff.value, diff);
+      break;
+    }
+    case 'move': {
+      if (diff.from === undefined) {
+        throw new PatchError('move requires a from path', diff, 'missing_value');
+      }
+      let fromIndexes: number[];
+      try {
+        fromIndexes = parsePath(diff.from);
+      } catch (error) {
+        throw new PatchError((error as Error).message, diff, 'invalid_path');
+      }
+      if (fromIndexes.length === 0) {
+        throw new PatchError('Cannot move the root component', diff, 'invalid_operation');
+      }
+      if (fromIndexes.every((index, i) => indexes[i] === index) && indexes.length > fromIndexes.length) {
+        throw new PatchError('Cannot move a component into its own subtree', diff, 'invalid_operation');
+      }
+      // Like JSON Patch: remove from the source, then add at the (post-removal) target
+      const { root, removed } = removeNode(schema, fromIndexes, diff);
+      result = insertNode(root, indexes, removed, diff);
+      break;
+    }
+    default:
+      throw new PatchError(`Unknown operation: ${(diff as EvolutionDiff).operation}`, diff, 'invalid_operation');
+  }
+
+  // Only reject errors the patch introduced - pre-existing problems stay as they were.
+  // Errors are compared without their path prefix, since removing or moving a
+  // sibling shifts the paths of untouched nodes.
+  const remaining = validateSchema(schema).errors.map(stripErrorPath);
+  const introduced = validateSchema(result).errors.filter(error => {
+    const index = remaining.indexOf(stripErrorPath(error));
+    if (index === -1) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+  if (introduced.length > 0) {
+    throw new PatchError(
+      `Patch produces an invalid schema: ${introduced.join('; ')}`,
+      diff,
+      'validation_failed',
+      introduced
+    );
+  }
+
+  return result;
+}
+
+// Build the diff that undoes `diff` when applied to applyPatch(schema, diff).
+// Must be called with the schema the diff is about to be applied to.
+export function invertPatch(schema: ComponentSchema, diff: EvolutionDiff): EvolutionDiff {
+  const indexes = parsePath(diff.path);
+
+  switch (diff.operation) {
+    case 'add': {
+      const parent = getNodeAtPath(schema, formatPath(indexes.slice(0, -1)));
+      const index = indexes[indexes.length - 1];
+      const resolved = index === -1 ? parent?.children?.length ?? 0 : index;
+      return { operation: 'remove', path: formatPath([...indexes.slice(0, -1), resolved]) };
+    }
+    case 'remove':
+      return { operation: 'add', path: diff.path, value: getNodeAtPath(schema, diff.path) };
+    case 'update':
+      return { operation: 'update', path: diff.path, value: getNodeAtPath(schema, diff.path) };
+    case 'move': {
+      // '-' resolves against the parent after the source has been removed
+      const index = indexes[indexes.length - 1];
+      let resolved = index;
+      if (index === -1) {
+        const { root } = removeNode(schema, parsePath(diff.from!), diff);
+        resolved = getNodeAtPath(root, formatPath(indexes.slice(0, -1)))?.children?.length ?? 0;
+      }
+      return { operation: 'move', from: formatPath([...indexes.slice(0, -1), resolved]), path: diff.from! };
+    }
+  }
+}
+
+// Apply several diffs in order (all or nothing)
+export function applyPatches(schema: ComponentSchema, diffs: EvolutionDiff[]): ComponentSchema {
+  return diffs.reduce((current, diff) => applyPatch(current, diff), schema);
+}
+
+// "children[2].props.type: expected bar|line|pie" -> "props.type: expected bar|line|pie"
+function stripErrorPath(error: string): string {
+  return error.replace(/^(root|(children\[\d+\]\.?)+)(?=[.:]|props)/, '').replace(/^\./, '');
+}
+
+// Copy the nodes from the root down to the parent of the last index and
+// replace that parent's children with fn(children). Siblings are shared.
+function updateChildren(
+  node: ComponentSchema,
+  parentIndexes: number[],
+  fn: (children: ComponentSchema[]) => ComponentSchema[],
+  diff: EvolutionDiff,
+  depth: number = 0
+): ComponentSchema {
+  if (depth === parentIndexes.length) {
+    return { ...node, children: fn(node.children || []) };
+  }
+
+  const index = parentIndexes[depth];
+  const child = node.children?.[index];
+  if (!child) {
+    throw new PatchError(`No component at ${formatPath(parentIndexes.slice(0, depth + 1))}`, diff, 'invalid_path');
+  }
+
+  const children = [...node.children!];
+  children[index] = updateChildren(child, parentIndexes, fn, diff, depth + 1);
+  return { ...node, children };
+}
+
+function insertNode(
+  root: ComponentSchema,
+  indexes: number[],
+  node: ComponentSchema,
+  diff: EvolutionDiff
+): ComponentSchema {
+  if (indexes.length === 0) {
+    throw new PatchError('Cannot add at the root - use update to replace it', diff, 'invalid_operation');
+  }
+
+  const index = indexes[indexes.length - 1];
+  return updateChildren(root, indexes.slice(0, -1), children => {
+    const insertAt = index === -1 ? children.length : index;
+    if (insertAt > children.length) {
+      throw new PatchError(
+        `Index ${insertAt} is out of bounds (${children.length} children) at ${diff.path}`,
+        diff,
+        'invalid_path'
+      );
+    }
+    return [...children.slice(0, insertAt), node, ...children.slice(insertAt)];
+  }, diff);
+}
+
+function removeNode(
+  root: ComponentSchema,
+  indexes: number[],
+  diff: EvolutionDiff
+): { root: ComponentSchema; removed: ComponentSchema } {
+  const index = indexes[indexes.length - 1];
+  let removed: ComponentSchema | undefined;
+
+  const next = updateChildren(root, indexes.slice(0, -1), children => {
+    removed = children[index];
+    if (!removed) {
+      throw new PatchError(`No component at ${formatPath(indexes)}`, diff, 'invalid_path');
+    }
+    return children.filter((_, i) => i !== index);
+  }, diff);
+
+  return { root: next, removed: removed! };
+}
+
+function replaceNode(
+  root: ComponentSchema,
+  indexes: number[],
+  node: ComponentSchema,
+  diff: EvolutionDiff
+): ComponentSchema {
+  if (indexes.length === 0) return node;
+
+  const index = indexes[indexes.length - 1];
+  return updateChildren(root, indexes.slice(0, -1), children => {
+    if (!children[index]) {
+      throw new PatchError(`No component at ${diff.path}`, diff, 'invalid_path');
+    }
+    return children.map((child, i) => (i === index ? node : child));
+  }, diff);
+}
@@ -0,0 +1,304 @@
+// Prompt Templates - Versioned prompts with {{variable}} placeholders
+// Bump a template's version whenever its text changes: the version is recorded with
+// every AI result (promptVersion), so outputs can be compared across prompt versions.
+// Domains can override the generation, correction and evolution prompts through
+// DomainConfig.prompts without touching this file.
+
+import type { DomainConfig } from './domains';
+
+export type PromptId = 'analysis' | 'generation' | 'correction' | 'evolution';
+
+// The analysis prompt picks the domain, so it can't be overridden by one
+export type DomainPromptId = Exclude<PromptId, 'analysis'>;
+
+export interface PromptTemplate {
+  version: string;
+  template: string;                   // Main text
+  sections?: Record<string, string>;  // Named fragments the caller chooses between (also templates)
+}
+
+// Overrides replace the template and/or individual sections and must carry their own version
+export type PromptOverride = Partial<PromptTemplate> & { version: string };
+
+export interface RenderedPrompt {
+  text: string;
+  version: string;  // e.g. "generation@1", or "generation@github_repo/2" for a domain override
+}
+
+export const PROMPT_TEMPLATES: Record<PromptId, PromptTemplate> = {
+  // Variables: existingDomains, keys, structure, dataProfile
+  analysis: {
+    version: '1',
+    template: `You are an expert at analyzing data structures and categorizing them into domains.
+
+EXISTING DOMAINS:
+{{existingDomains}}
+
+JSON DATA TO ANALYZE:
+Keys: {{keys}}
+Structure: {{structure}}
+
+FIELD PROFILE:
+{{dataProfile}}
+
+TASK:
+1. Determine if this JSON data fits into one of the existing domains (at least 30% keyword match)
+2. If yes, return the matching domain ID and explain why
+3. If no, create a NEW domain configuration
+
+OUTPUT FORMAT (JSON only, no markdown):
+{
+  "needsNewDomain": boolean,
+  "matchedDomainId": "domain_id" (if match found),
+  "reasoning": "brief explanation",
+  "newDomain": {
+    "id": "snake_case_id",
+    "name": "Human Readable Name",
+    "description": "Brief description",
+    "keywords": ["key1", "key2", "key3"],
+    "questions": [
+      {
+        "id": "question_id",
+        "text": "Question text?",
+        "options": ["Option 1", "Option 2", "Option 3", "Option 4"],
+        "impact": "layout_weight|section_priority|component_selection|visualization_style"
+      }
+    ],
+    "layoutHints": {
+      "preferredLayout": "grid|single-column|tabs",
+      "emphasize": "metrics|lists|timeline|balanced"
+    }
+  } (only if needsNewDomain is true)
+}
+
+IMPORTANT:
+- Generate 2-4 specific questions relevant to this data domain
+- Questions should help determine UI layout and priorities
+- Use clear, actionable question text
+- Provide 3-4 options per question
+- Keywords should be lowercase and match actual data keys`
+  },
+
+  // Variables: componentCount, components, keys, structure, dataProfile, context, task.
+  // The task is built from the sections: "decide" without answers, otherwise "preferences"
+  // (with {{preferences}}), then "charts" or "metrics", then "rules".
+  generation: {
+    version: '1',
+    template: `You are an expert UI generator. Generate a dashboard UI schema from the provided data.
+
+AVAILABLE COMPONENTS (you must use ONLY these {{componentCount}} components):
+{{components}}
+
+DATA TO VISUALIZE:
+Keys: {{keys}}
+Structure: {{structure}}
+
+DATA PROFILE (paths use [] for array items - bind to arrays by their path without []):
+{{dataProfile}}
+
+CONTEXT ANALYSIS:
+{{context}}
+
+{{task}}`,
+    sections: {
+      preferences: `USER PREFERENCES:
+{{preferences}}
+
+TASK: Generate the complete UI schema based on the data and user preferences.
+Set needsQuestions to FALSE and provide the schema.
+
+`,
+      charts: `CHART PREFERENCE: User wants charts/graphs for nested data.
+
+RULES FOR CHARTS:
+- For nested objects with numeric values (like { TypeScript: 65, Python: 30 }),
+  create Chart components with type "pie" or "bar"
+- Point to the SPECIFIC nested path containing numbers, NOT the parent object
+  - Good: "$data.healthcare.hospitalOverview" (flat object with numbers)
+  - Bad: "$data.healthcare" (complex nested object)
+- Use "pie" for percentage/distribution data, "bar" for comparisons
+- The Chart component can now handle nested objects, so it's safe to use
+
+`,
+      metrics: `IMPORTANT RULES FOR METRICS:
+- When you find a nested object where ALL values are numbers (like gymMetrics: {totalMembers: 3456, activeMembers: 2789}),
+  create INDIVIDUAL Metric components for EACH number inside
+- Use full dot notation paths: "$data.gymMetrics.totalMembers", "$data.gymMetrics.activeMembers", etc.
+- DO NOT create a Chart component for objects containing only numbers - use Metric components instead
+- Wrap metrics in a Card with a Container inside to display them in a grid
+
+`,
+      rules: `GENERAL RULES:
+- IMPORTANT: The schema field must be a SINGLE root object (Container component), NOT an array
+- Use data bindings like "$data.fieldName" for dynamic values
+- Container component should be the root with cols and gap props
+- Wrap content in Card components with titles
+- For arrays, use List or Table components with "$data.arrayName" as items/rows
+- Follow the component prop requirements strictly
+- Create a well-structured, hierarchical layout
+`,
+      decide: `TASK: Analyze the data complexity and decide:
+
+1. If data is SIMPLE (1-3 metrics, 1-2 lists, clear structure):
+   - Set needsQuestions to FALSE
+   - Generate a complete UI schema directly
+   - Use sensible defaults for layout
+
+2. If data is COMPLEX (5+ entities, nested structures, ambiguous priorities):
+   - Set needsQuestions to TRUE
+   - Generate 2-4 relevant questions to clarify user preferences
+   - Do NOT generate schema yet
+
+IMPORTANT RULES FOR METRICS (default behavior):
+- When you find a nested object where ALL values are numbers (like gymMetrics: {totalMembers: 3456, activeMembers: 2789}),
+  create INDIVIDUAL Metric components for EACH number inside
+- Use full dot notation paths: "$data.gymMetrics.totalMembers", "$data.gymMetrics.activeMembers", etc.
+- Wrap metrics in a Card with a Container inside to display them in a grid
+- The Chart component can handle nested objects if needed for visualization
+
+GENERAL RULES:
+- IMPORTANT: The schema field must be a SINGLE root object (Container component), NOT an array
+- Use data bindings like "$data.fieldName" for dynamic values
+- Container component should be the root with cols and gap props
+- Wrap content in Card components with titles
+- For arrays, use List or Table components with "$data.arrayName" as items/rows
+- Follow the component prop requirements strictly
+- Create a well-structured, hierarchical layout
+
+EXAMPLE for nested metrics:
+If data has: { "gymMetrics": { "totalMembers": 3456, "activeMembers": 2789 } }
+Generate:
+{
+  "component": "Card",
+  "props": { "title": "Gym Metrics", "colspan": 3 },
+  "children": [{
+    "component": "Container",
+    "props": { "cols": 4, "gap": "sm" },
+    "children": [
+      { "component": "Metric", "props": { "label": "Total Members", "value": "$data.gymMetrics.totalMembers", "icon": "users" }},
+      { "component": "Metric", "props": { "label": "Active Members", "value": "$data.gymMetrics.activeMembers", "icon": "users" }}
+    ]
+  }]
+}
+`
+    }
+  },
+
+  // Variables: generationPrompt (the rendered generation prompt), previousOutput, errors
+  correction: {
+    version: '1',
+    template: `{{generationPrompt}}
+PREVIOUS OUTPUT:
+{{previousOutput}}
+
+ERRORS IN THE PREVIOUS OUTPUT:
+{{errors}}
+
+TASK: Return a corrected version of the previous output. Fix every error listed above and keep
+everything else unchanged. Only bind to keys that exist in the data. Set needsQuestions to FALSE.
+`
+  },
+
+  // Variables: componentCount, components, keys, structure, dataProfile, outline, schema, instruction
+  evolution: {
+    version: '1',
+    template: `You are an expert UI editor. Modify an existing dashboard UI schema by returning a list of diffs.
+Do NOT regenerate the dashboard - change only what the instruction asks for.
+
+AVAILABLE COMPONENTS (you must use ONLY these {{componentCount}} components):
+{{components}}
+
+DATA KEYS:
+Keys: {{keys}}
+Structure: {{structure}}
+
+DATA PROFILE:
+{{dataProfile}}
+
+CURRENT SCHEMA OUTLINE (path, component, title):
+{{outline}}
+
+CURRENT SCHEMA:
+{{schema}}
+
+INSTRUCTION:
+{{instruction}}
+
+DIFF RULES:
+- Paths are JSON-Pointer style over children only: "/children/1/children/0". The root is "/".
+- "add" inserts "value" at "path"; use "/children/-" (or ".../children/-") to append.
+- "remove" deletes the component at "path".
+- "update" replaces the component at "path" with "value" (send the FULL component including unchanged props and children).
+- "move" removes the component at "from" and inserts it at "path" (path is interpreted after the removal).
+- Diffs are applied in order; each path refers to the schema after the previous diffs.
+- Use data bindings like "$data.fieldName" that point to existing data keys.
+- Follow the component prop requirements strictly.
+
+OUTPUT FORMAT (JSON only, no markdown):
+{
+  "reasoning": "brief explanation",
+  "diffs": [
+    { "operation": "add", "path": "/children/-", "value": { "component": "Card", "props": { "title": "..." }, "children": [] } }
+  ]
+}`
+  }
+};
+
+// The template to use for a prompt: the domain's override merged over the built-in one
+export function resolvePrompt(id: PromptId, domain?: DomainConfig): PromptTemplate & { fullVersion: string } {
+  const builtIn = PROMPT_TEMPLATES[id];
+  const override = id !== 'analysis' ? domain?.prompts?.[id] : undefined;
+
+  if (!override) {
+    return { ...builtIn, fullVersion: `${id}@${builtIn.version}` };
+  }
+
+  return {
+    version: override.version,
+    template: override.template ?? builtIn.template,
+    sections: { ...builtIn.sections, ...override.sections },
+    fullVersion: `${id}@${domain!.id}/${override.version}`
+  };
+}
+
+// Version of the prompt that would be used, e.g. for cache keys
+export function promptVersion(id: PromptId, domain?: DomainConfig): string {
+  return resolvePrompt(id, domain).fullVersion;
+}
+
+// Render a prompt. `task` style variables can be assembled from sections first with
+// renderSections. Throws if the template uses a variable that wasn't provided.
+export function renderPrompt(
+  id: PromptId,
+  variables: Record<string, string | number>,
+  domain?: DomainConfig
+): RenderedPrompt {
+  const prompt = resolvePrompt(id, domain);
+  return { text: renderTemplate(prompt.template, variables), version: prompt.fullVersion };
+}
+
+// Render and concatenate sections of a prompt, in the given order
+export function renderSections(
+  id: PromptId,
+  names: string[],
+  variables: Record<string, string | number>,
+  domain?: DomainConfig
+): string {
+  const { sections = {} } = resolvePrompt(id, domain);
+  return names.map(name => {
+    if (sections[name] === undefined) {
+      throw new Error(`Unknown prompt section: ${id}.${name}`);
+    }
+    return renderTemplate(sections[name], variables);
+  }).join('');
+}
+
+// Replace {{name}} placeholders
+export function renderTemplate(template: string, variables: Record<string, string | number>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Unknown prompt variable: ${name}`);
+    }
+    return String(variables[name]);
+  });
+}
@@ -0,0 +1,301 @@
+// Schema Repair - Deterministically fixes common problems in AI-generated schemas
+// Clamps/coerces prop values, drops unknown props, fills required props from the data
+// and unwraps redundant containers. Nodes that can't be repaired are replaced with
+// the matching section from the rule-based generator (or dropped).
+
+import { ComponentSchema, ComponentType, COMPONENT_PROPS_SCHEMAS, COMPONENT_TYPES, validateSchema } from './components';
+import { ContextAnalysis } from './analyzer';
+import { generateUI, formatLabel, UserAnswers } from './generator';
+import { extractBindings, getNestedValue } from '../lib/dataBinding';
+
+export interface RepairResult {
+  schema: ComponentSchema;
+  repairs: string[];   // Human-readable log, e.g. "props.cols: clamped 5 to 4"
+}
+
+// Common names models use for components we do have
+const COMPONENT_ALIASES: Record<string, ComponentType> = {
+  grid: 'Container',
+  row: 'Container',
+  column: 'Container',
+  stack: 'Container',
+  layout: 'Container',
+  panel: 'Card',
+  group: 'Section',
+  kpi: 'Metric',
+  stat: 'Metric',
+  statistic: 'Metric',
+  datatable: 'Table',
+  graph: 'Chart',
+  barchart: 'Chart',
+  linechart: 'Chart',
+  piechart: 'Chart',
+  tag: 'Badge',
+  chip: 'Badge',
+  progressbar: 'Progress',
+};
+
+interface RepairContext {
+  data: Record<string, unknown>;
+  repairs: string[];
+  fallback: () => ComponentSchema;
+}
+
+// Repair a schema against the data it will be rendered with
+export function repairSchema(
+  schema: ComponentSchema,
+  data: Record<string, unknown>,
+  analysis: ContextAnalysis,
+  answers: UserAnswers = {}
+): RepairResult {
+  let fallbackSchema: ComponentSchema | null = null;
+  const context: RepairContext = {
+    data,
+    repairs: [],
+    fallback: () => (fallbackSchema ??= generateUI(data, analysis, answers)),
+  };
+
+  let root = repairNode(schema, '', context);
+
+  if (!root) {
+    context.repairs.push('root: could not be repaired, used rule-based layout');
+    return { schema: context.fallback(), repairs: context.repairs };
+  }
+
+  // The root must be a Container
+  if (root.component !== 'Container') {
+    context.repairs.push(`root: wrapped ${root.component} in a Container`);
+    root = { component: 'Container', props: { cols: 1, gap: 'md' }, children: [root] };
+  } else if (root.children?.length === 1 && root.children[0].component === 'Container') {
+    context.repairs.push('root: unwrapped single-child Container');
+    root = root.children[0];
+  }
+
+  return { schema: root, repairs: context.repairs };
+}
+
+function repairNode(node: ComponentSchema, path: string, context: RepairContext): ComponentSchema | null {
+  const nodePath = path || 'root';
+  const propsPath = path ? `${path}.props` : 'props';
+
+  if (!node || typeof node !== 'object') {
+    context.repairs.push(`${nodePath}: dropped invalid node`);
+    return null;
+  }
+
+  const component = resolveComponentType(node.component);
+  if (!component) {
+    context.repairs.push(`${nodePath}: unknown component ${node.component}`);
+    return null;
+  }
+  if (component !== node.component) {
+    context.repairs.push(`${nodePath}: renamed component ${node.component} to ${component}`);
+  }
+
+  const propsSchema = COMPONENT_PROPS_SCHEMAS[component];
+  const props: Record<string, unknown> = {};
+  const rawProps = node.props && typeof node.props === 'object' ? node.props : {};
+
+  for (const [key, value] of Object.entries(rawProps)) {
+    const field = propsSchema.shape[key];
+    if (!field) {
+      context.repairs.push(`${propsPath}.${key}: dropped unknown prop`);
+      continue;
+    }
+    if (value === null || value === undefined) continue;
+
+    // Clamp grid columns to the supported range
+    if (component === 'Container' && key === 'cols' && !isNaN(Number(value))) {
+      const clamped = Math.min(4, Math.max(1, Math.round(Number(value))));
+      if (clamped !== Number(value)) {
+        context.repairs.push(`${propsPath}.cols: clamped ${JSON.stringify(value)} to ${clamped}`);
+        props.cols = clamped;
+        continue;
+      }
+    }
+
+    const coerced = coerceValue(value, field as ZodField);
+    if (coerced === undefined) {
+      context.repairs.push(`${propsPath}.${key}: dropped invalid value ${JSON.stringify(value)}`);
+      continue;
+    }
+    if (coerced !== value) {
+      context.repairs.push(`${propsPath}.${key}: coerced ${JSON.stringify(value)} to ${JSON.stringify(coerced)}`);
+    }
+    props[key] = coerced;
+  }
+
+  // Repair children first so required props can be derived from them
+  const children: ComponentSchema[] = [];
+  (Array.isArray(node.children) ? node.children : []).forEach((child, index) => {
+    const childPath = `${path ? `${path}.` : ''}children[${index}]`;
+    const repaired = repairNode(child, childPath, context);
+
+    if (repaired) {
+      children.push(repaired);
+      return;
+    }
+
+    const replacement = findFallbackNode(child, context);
+    if (replacement) {
+      context.repairs.push(`${childPath}: replaced with rule-based ${replacement.component}`);
+      children.push(replacement);
+    } else {
+      context.repairs.push(`${childPath}: removed`);
+    }
+  });
+
+  const repaired: ComponentSchema = { component, props };
+  if (children.length > 0) repaired.children = children;
+
+  fillRequiredProps(repaired, propsPath, context);
+
+  // Still invalid after all repairs - let the caller fall back
+  const { valid, errors } = validateSchema({ component, props });
+  if (!valid) {
+    context.repairs.push(`${nodePath}: still invalid after repair (${errors.join(', ')})`);
+    return null;
+  }
+
+  // A nested Container with a single child adds nothing but a grid wrapper
+  if (path && component === 'Container' && children.length === 1) {
+    context.repairs.push(`${nodePath}: unwrapped single-child Container`);
+    const [child] = children;
+    if (props.colspan && child.props.colspan === undefined && 'colspan' in COMPONENT_PROPS_SCHEMAS[child.component].shape) {
+      return { ...child, props: { ...child.props, colspan: props.colspan } };
+    }
+    return child;
+  }
+
+  return repaired;
+}
+
+// Case-insensitive lookup of component names plus common aliases
+function resolveComponentType(name: unknown): ComponentType | null {
+  if (typeof name !== 'string') return null;
+
+  const exact = COMPONENT_TYPES.find(type => type.toLowerCase() === name.toLowerCase());
+  if (exact) return exact;
+
+  return COMPONENT_ALIASES[name.toLowerCase().replace(/[\s-]/g, '')] || null;
+}
+
+type ZodField = { safeParse: (value: unknown) => { success: boolean } };
+
+// Return the value (or a coerced version of it) that the field accepts, or undefined
+function coerceValue(value: unknown, field: ZodField): unknown {
+  if (field.safeParse(value).success || isBinding(value)) return value;
+
+  const candidates: unknown[] = [];
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed !== '' && !isNaN(Number(trimmed))) candidates.push(Number(trimmed));
+    if (trimmed === 'true' || trimmed === 'false') candidates.push(trimmed === 'true');
+    candidates.push(trimmed.toLowerCase());
+    if (trimmed.includes(',')) candidates.push(trimmed.split(',').map(part => part.trim()));
+    candidates.push([trimmed]);
+  } else if (typeof value === 'number' || typeof value === 'boolean') {
+    candidates.push(String(value));
+  }
+
+  return candidates.find(candidate => field.safeParse(candidate).success);
+}
+
+// Fill in missing required props using bindings and the data itself
+function fillRequiredProps(node: ComponentSchema, propsPath: string, context: RepairContext): void {
+  const { props } = node;
+  const fill = (key: string, value: unknown) => {
+    if (value === undefined || value === null || value === '') return;
+    props[key] = value;
+    context.repairs.push(`${propsPath}.${key}: filled missing prop with ${JSON.stringify(value)}`);
+  };
+
+  const firstBinding = collectBindings(node)[0];
+  const bindingLabel = firstBinding ? formatLabel(firstBinding.split('.').pop()!) : undefined;
+
+  switch (node.component) {
+    case 'Card':
+    case 'Section':
+      if (!props.title) fill('title', bindingLabel);
+      break;
+    case 'Metric':
+      if (props.label === undefined && typeof props.value === 'string' && isBinding(props.value)) {
+        fill('label', formatLabel(props.value.split('.').pop()!));
+      }
+      if (props.value === undefined && typeof props.label === 'string') {
+        fill('value', findDataBinding(props.label, context.data, v => typeof v === 'number' || typeof v === 'string'));
+      }
+      break;
+    case 'Table':
+      if (props.columns === undefined) {
+        const rows = typeof props.rows === 'string' ? getNestedValue(context.data, props.rows.replace(/^\$data\./, '')) : props.rows;
+        if (Array.isArray(rows) && rows[0] && typeof rows[0] === 'object') {
+          fill('columns', Object.keys(rows[0]).slice(0, 6));
+        }
+      }
+      break;
+    case 'Chart':
+      if (props.type === undefined && props.data !== undefined) {
+        const chartData = typeof props.data === 'string' ? getNestedValue(context.data, props.data.replace(/^\$data\./, '')) : props.data;
+        const allNumbers = chartData && typeof chartData === 'object' && !Array.isArray(chartData) &&
+          Object.values(chartData).every(v => typeof v === 'number');
+        fill('type', allNumbers ? 'pie' : 'bar');
+      }
+      break;
+    case 'Tabs':
+      if (props.items === undefined && node.children?.length) {
+        fill('items', node.children.map((child, index) => child.props.title || child.props.label || `Tab ${index + 1}`));
+      }
+      break;
+  }
+}
+
+// Find a data key whose name matches a label, e.g. "Open Issues" -> "$data.open_issues"
+function findDataBinding(
+  label: string,
+  data: Record<string, unknown>,
+  accept: (value: unknown) => boolean,
+  prefix: string = ''
+): string | undefined {
+  const normalized = normalize(label);
+
+  for (const [key, value] of Object.entries(data || {})) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (normalize(key) === normalized && accept(value)) return `$data.${path}`;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const nested = findDataBinding(label, value as Record<string, unknown>, accept, path);
+      if (nested) return nested;
+    }
+  }
+
+  return undefined;
+}
+
+// Pick the rule-based section that shows the same data as an unrepairable node
+function findFallbackNode(node: ComponentSchema, context: RepairContext): ComponentSchema | null {
+  const keys = new Set(collectBindings(node).map(binding => binding.split('.')[1]));
+  if (keys.size === 0) return null;
+
+  const candidates = context.fallback().children || [];
+  return candidates.find(candidate =>
+    collectBindings(candidate).some(binding => keys.has(binding.split('.')[1]))
+  ) || null;
+}
+
+// All $data bindings used anywhere in a (possibly malformed) subtree
+function collectBindings(node: unknown): string[] {
+  if (typeof node === 'string') {
+    return extractBindings(node).filter(binding => binding.startsWith('$data.'));
+  }
+  if (Array.isArray(node)) return node.flatMap(collectBindings);
+  if (node && typeof node === 'object') return Object.values(node).flatMap(collectBindings);
+  return [];
+}
+
+function isBinding(value: unknown): boolean {
+  return typeof value === 'string' && (value.startsWith('$data.') || value.startsWith('$item.'));
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
@@ -0,0 +1,302 @@
+// Data Sampler - Compact, token-bounded profile of arbitrarily large JSON for prompts
+// Every field path gets its types and statistics (array lengths, min/max, cardinality,
+// enum-like values) plus a sample of the data with arrays cut down to their first items.
+// The output is shrunk step by step until it fits the token budget. Wide objects are trimmed
+// before anything else, so thousands of keys in one object don't crowd out the structure.
+
+export interface FieldProfile {
+  path: string;             // e.g. "orders[].status" ([] stands for every array element)
+  types: string[];          // "string" | "number" | "boolean" | "null" | "object" | "array"
+  count: number;            // Number of values seen at this path
+  min?: number;             // Numbers only
+  max?: number;
+  cardinality?: number;     // Distinct scalar values (capped at MAX_TRACKED_VALUES)
+  values?: Array<string | number>;  // All values, when the field looks like an enum
+  example?: string | number | boolean;
+  length?: { min: number; max: number };  // Arrays only
+  keys?: { count: number; examples: string[] };  // Sibling fields collapsed into "parent.*"
+}
+
+export interface DataProfile {
+  fields: FieldProfile[];
+  sample: unknown;          // The data with arrays cut to their first items and long strings shortened
+  omittedFields: number;    // Fields left out to fit the budget
+  estimatedTokens: number;
+}
+
+export interface SamplerOptions {
+  tokenBudget?: number;     // Upper bound for the formatted profile (default 2000)
+  maxItems?: number;        // Array items kept in the sample (default 3)
+  maxStringLength?: number; // Longer strings are cut in the sample (default 80)
+  maxEnumValues?: number;   // Most distinct values a field can have to count as an enum (default 8)
+}
+
+const MAX_TRACKED_VALUES = 1000;
+
+// Runs of sibling scalar fields are collapsed when longer than this, halving down to the minimum
+const COLLAPSE_ABOVE = 64;
+const MIN_COLLAPSE_ABOVE = 8;
+
+const SCALAR_TYPES = ['string', 'number', 'boolean', 'null'];
+
+interface FieldStats {
+  types: Set<string>;
+  count: number;
+  min?: number;
+  max?: number;
+  distinct: Set<string | number | boolean>;
+  example?: string | number | boolean;
+  minLength?: number;
+  maxLength?: number;
+}
+
+// Rough token count (about four characters per token for JSON and English)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Profile the data and shrink the result until it fits the token budget
+export function profileData(data: unknown, options: SamplerOptions = {}): DataProfile {
+  const {
+    tokenBudget = 2000,
+    maxItems = 3,
+    maxStringLength = 80,
+    maxEnumValues = 8
+  } = options;
+
+  const stats = new Map<string, FieldStats>();
+  collectStats(data, '', stats);
+  const allFields = Array.from(stats.entries())
+    // Plain objects are described by their fields
+    .filter(([, field]) => field.types.size > 1 || !field.types.has('object'))
+    .map(([path, field]) => toFieldProfile(path, field, maxEnumValues));
+
+  // Most detailed first: fewer sample items, shorter strings, no sample, collapsed runs of
+  // sibling scalars (longest first), then fewer fields
+  let items = maxItems;
+  let stringLength = maxStringLength;
+  let collapseAbove = COLLAPSE_ABOVE;
+  let fields = allFields;
+  let sample: unknown = sampleData(data, items, stringLength);
+
+  const build = (): DataProfile => {
+    const described = fields.reduce((total, field) => total + (field.keys?.count ?? 1), 0);
+    const profile = { fields, sample, omittedFields: allFields.length - described, estimatedTokens: 0 };
+    profile.estimatedTokens = estimateTokens(formatProfile(profile));
+    return profile;
+  };
+
+  let profile = build();
+  while (profile.estimatedTokens > tokenBudget) {
+    if (sample !== undefined && items > 1) {
+      items--;
+    } else if (sample !== undefined && stringLength > 20) {
+      stringLength = Math.floor(stringLength / 2);
+    } else if (sample !== undefined) {
+      sample = undefined;
+    } else if (collapseAbove >= MIN_COLLAPSE_ABOVE) {
+      fields = collapseSiblings(fields, collapseAbove);
+      collapseAbove = Math.floor(collapseAbove / 2);
+    } else if (fields.length > 1) {
+      fields = dropFields(fields);
+    } else {
+      break;
+    }
+
+    if (sample !== undefined) sample = sampleData(data, items, stringLength);
+    profile = build();
+  }
+
+  return profile;
+}
+
+// Replace every run of more than `limit` scalar fields under the same parent with one
+// "parent.*" entry, keeping the position of the first of them
+function collapseSiblings(fields: FieldProfile[], limit: number): FieldProfile[] {
+  const groups = new Map<string, FieldProfile[]>();
+  for (const field of fields) {
+    if (!field.path || field.keys || !field.types.every(type => SCALAR_TYPES.includes(type))) continue;
+    const parent = parentPath(field.path);
+    const group = groups.get(parent);
+    if (group) group.push(field);
+    else groups.set(parent, [field]);
+  }
+
+  const replacements = new Map<FieldProfile, FieldProfile | null>();
+  for (const [parent, group] of groups) {
+    if (group.length <= limit) continue;
+    group.forEach((field, index) => replacements.set(field, index === 0 ? mergeSiblings(parent, group) : null));
+  }
+
+  return fields.flatMap(field => {
+    const replacement = replacements.get(field);
+    return replacement === undefined ? [field] : replacement ? [replacement] : [];
+  });
+}
+
+function mergeSiblings(parent: string, group: FieldProfile[]): FieldProfile {
+  const numeric = group.filter(field => field.min !== undefined);
+  const merged: FieldProfile = {
+    path: parent ? `${parent}.*` : '*',
+    types: Array.from(new Set(group.flatMap(field => field.types))),
+    count: group.reduce((total, field) => total + field.count, 0),
+    example: group.find(field => field.example !== undefined)?.example,
+    keys: { count: group.length, examples: group.slice(0, 3).map(field => field.path.slice(parent ? parent.length + 1 : 0)) }
+  };
+
+  if (numeric.length > 0) {
+    merged.min = Math.min(...numeric.map(field => field.min!));
+    merged.max = Math.max(...numeric.map(field => field.max!));
+  }
+  return merged;
+}
+
+// Drop a quarter of the fields, keeping the order of the rest. Fields of the widest objects go
+// first so one crowded object doesn't cost the others their fields, then the deepest ones.
+function dropFields(fields: FieldProfile[]): FieldProfile[] {
+  const siblings = new Map<string, number>();
+  for (const field of fields) {
+    siblings.set(parentPath(field.path), (siblings.get(parentPath(field.path)) ?? 0) + 1);
+  }
+
+  const kept = new Set([...fields]
+    .sort((a, b) =>
+      siblings.get(parentPath(a.path))! - siblings.get(parentPath(b.path))! || depth(a.path) - depth(b.path))
+    .slice(0, Math.floor(fields.length * 0.75)));
+  return fields.filter(field => kept.has(field));
+}
+
+// Render a profile as prompt text
+export function formatProfile(profile: Omit<DataProfile, 'estimatedTokens'>): string {
+  const lines = profile.fields.map(formatField);
+  if (profile.omittedFields > 0) {
+    lines.push(`... ${profile.omittedFields} more nested fields omitted`);
+  }
+
+  if (profile.sample !== undefined) {
+    lines.push('', 'Sample (arrays show their first items):', JSON.stringify(profile.sample));
+  }
+
+  return lines.join('\n');
+}
+
+function formatField(field: FieldProfile): string {
+  const details: string[] = [];
+
+  if (field.keys) {
+    details.push(`${field.keys.count} keys like ${field.keys.examples.join(', ')}`);
+  }
+  if (field.length) {
+    details.push(field.length.min === field.length.max
+      ? `length ${field.length.max}`
+      : `length ${field.length.min}-${field.length.max}`);
+  }
+  if (field.min !== undefined && field.max !== undefined) {
+    details.push(field.min === field.max ? `value ${field.min}` : `min ${field.min}, max ${field.max}`);
+  }
+  if (field.values) {
+    details.push(`one of ${JSON.stringify(field.values)}`);
+  } else if (field.cardinality !== undefined && field.count > 1) {
+    details.push(`${field.cardinality}${field.cardinality >= MAX_TRACKED_VALUES ? '+' : ''} distinct`);
+  }
+  if (field.example !== undefined && !field.values && field.min === undefined) {
+    details.push(`e.g. ${JSON.stringify(field.example)}`);
+  }
+
+  return `${field.path || '(root)'}: ${field.types.join('|')}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}
+
+// Walk the data, accumulating statistics per field path
+function collectStats(value: unknown, path: string, stats: Map<string, FieldStats>): void {
+  let field = stats.get(path);
+  if (!field) {
+    field = { types: new Set(), count: 0, distinct: new Set() };
+    stats.set(path, field);
+  }
+
+  field.count++;
+  const type = value === null || value === undefined ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+  field.types.add(type);
+
+  if (Array.isArray(value)) {
+    field.minLength = Math.min(field.minLength ?? Infinity, value.length);
+    field.maxLength = Math.max(field.maxLength ?? 0, value.length);
+    value.forEach(item => collectStats(item, `${path}[]`, stats));
+    return;
+  }
+
+  if (type === 'object') {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      collectStats(child, path ? `${path}.${key}` : key, stats);
+    }
+    return;
+  }
+
+  if (typeof value === 'number') {
+    field.min = Math.min(field.min ?? Infinity, value);
+    field.max = Math.max(field.max ?? -Infinity, value);
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    field.example ??= typeof value === 'string' ? truncate(value, 40) : value;
+    if (field.distinct.size < MAX_TRACKED_VALUES) field.distinct.add(value);
+  }
+}
+
+function toFieldProfile(path: string, field: FieldStats, maxEnumValues: number): FieldProfile {
+  const profile: FieldProfile = { path, types: Array.from(field.types), count: field.count };
+
+  if (field.min !== undefined) {
+    profile.min = field.min;
+    profile.max = field.max;
+  }
+  if (field.maxLength !== undefined) {
+    profile.length = { min: field.minLength!, max: field.maxLength };
+  }
+
+  if (field.distinct.size > 0) {
+    profile.cardinality = field.distinct.size;
+    profile.example = field.example;
+
+    // Few distinct values that repeat: treat as an enum (booleans say enough already)
+    const scalars = Array.from(field.distinct).filter((value): value is string | number => typeof value !== 'boolean');
+    if (
+      scalars.length > 0 &&
+      scalars.length === field.distinct.size &&
+      scalars.length <= maxEnumValues &&
+      field.count >= 4 &&
+      scalars.length <= field.count / 2
+    ) {
+      profile.values = scalars.map(value => (typeof value === 'string' ? truncate(value, 40) : value));
+    }
+  }
+
+  return profile;
+}
+
+// Copy of the data with every array cut to its first items and long strings shortened
+function sampleData(value: unknown, maxItems: number, maxStringLength: number): unknown {
+  if (Array.isArray(value)) {
+    return value.slice(0, maxItems).map(item => sampleData(item, maxItems, maxStringLength));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, sampleData(child, maxItems, maxStringLength)])
+    );
+  }
+  return typeof value === 'string' ? truncate(value, maxStringLength) : value;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
+}
+
+function depth(path: string): number {
+  return path.split(/\.|\[\]/).length;
+}
+
+// "orders[].status" -> "orders[]", "tags[]" -> "tags", "total" -> ""
+function parentPath(path: string): string {
+  if (path.endsWith('[]')) return path.slice(0, -2);
+  const dot = path.lastIndexOf('.');
+  return dot === -1 ? '' : path.slice(0, dot);
+}
@@ -1,182 +1,56 @@
-// Zod schemas for ComponentSchema - used for AI structured output generation
+// Zod schemas for ComponentSchema - used for AI structured output generation and to validate
+// AI responses. The structured output schemas sent to providers are built per provider in
+// structured-output.ts.
 import { z } from 'zod';
-
-// Component type enum
-export const ComponentTypeSchema = z.enum([
-  'Container',
-  'Card',
-  'Section',
-  'Metric',
-  'Table',
-  'List',
-  'Chart',
-  'Button',
-  'Filter',
-  'Tabs',
-  'Badge',
-  'Progress'
-]);
-
-// Base component props schemas
-export const ContainerPropsSchema = z.object({
-  cols: z.number().min(1).max(4).optional().describe('Number of columns in grid layout (1-4)'),
-  gap: z.enum(['sm', 'md', 'lg']).optional().describe('Gap size between items'),
-  colspan: z.number().optional().describe('How many columns this container spans')
-});
-
-export const CardPropsSchema = z.object({
-  title: z.string().describe('Card title (required)'),
-  subtitle: z.string().optional().describe('Optional subtitle'),
-  actions: z.array(z.string()).optional().describe('Optional action buttons'),
-  colspan: z.number().optional().describe('How many columns this card spans')
-});
-
-export const SectionPropsSchema = z.object({
-  title: z.string().describe('Section title (required)'),
-  collapsible: z.boolean().optional().describe('Whether section can be collapsed'),
-  defaultOpen: z.boolean().optional().describe('Whether section is open by default')
-});
-
-export const MetricPropsSchema = z.object({
-  label: z.string().describe('Metric label (required)'),
-  value: z.union([z.string(), z.number()]).describe('Metric value - can be number or data binding like $data.revenue'),
-  trend: z.enum(['up', 'down', 'warning', 'neutral']).optional().describe('Trend indicator'),
-  icon: z.string().optional().describe('Icon name')
-});
-
-export const TablePropsSchema = z.object({
-  columns: z.array(z.string()).describe('Array of column names (required)'),
-  rows: z.union([
-    z.array(z.record(z.string(), z.any())),
-    z.string()
-  ]).describe('Array of row objects or data binding like $data.products'),
-  sortable: z.boolean().optional().describe('Whether table is sortable')
-});
-
-export const ListPropsSchema = z.object({
-  items: z.union([
-    z.array(z.record(z.string(), z.any())),
-    z.string()
-  ]).describe('Array of items or data binding like $data.orders'),
-  avatar: z.boolean().optional().describe('Whether to show avatars'),
-  template: z.object({
-    primary: z.string().describe('Field name for primary text'),
-    secondary: z.string().optional().describe('Field name for secondary text')
-  }).optional().describe('Template for displaying list items'),
-  actions: z.array(z.string()).optional().describe('Available actions like view, edit, delete')
-});
-
-export const ChartPropsSchema = z.object({
-  type: z.enum(['bar', 'line', 'pie']).describe('Chart type (required)'),
-  data: z.union([
-    z.record(z.string(), z.number()),
-    z.array(z.object({
-      label: z.string(),
-      value: z.number()
-    })),
-    z.string()
-  ]).describe('Chart data object or data binding like $data.traffic_sources')
-});
-
-export const ButtonPropsSchema = z.object({
-  label: z.string().describe('Button text (required)'),
-  variant: z.enum(['default', 'outline', 'ghost']).optional().describe('Button style variant'),
-  action: z.string().optional().describe('Action to perform on click')
-});
-
-export const FilterPropsSchema = z.object({
-  options: z.union([
-    z.array(z.string()),
-    z.array(z.object({
-      label: z.string(),
-      value: z.string()
-    }))
-  ]).describe('Filter options (required)'),
-  multi: z.boolean().optional().describe('Allow multiple selections'),
-  target: z.string().optional().describe('Target data field to filter'),
-  placeholder: z.string().optional().describe('Placeholder text')
-});
-
-export const TabsPropsSchema = z.object({
-  items: z.array(z.string()).describe('Array of tab names (required)'),
-  default: z.string().optional().describe('Default selected tab')
-});
-
-export const BadgePropsSchema = z.object({
-  label: z.string().describe('Badge text (required)'),
-  color: z.string().optional().describe('Badge color')
-});
-
-export const ProgressPropsSchema = z.object({
-  value: z.number().describe('Current progress value (required)'),
-  max: z.number().optional().describe('Maximum value'),
-  label: z.string().optional().describe('Progress label')
-});
-
-// Union of all props schemas
-export const ComponentPropsSchema = z.union([
-  ContainerPropsSchema,
-  CardPropsSchema,
-  SectionPropsSchema,
-  MetricPropsSchema,
-  TablePropsSchema,
-  ListPropsSchema,
-  ChartPropsSchema,
-  ButtonPropsSchema,
-  FilterPropsSchema,
-  TabsPropsSchema,
-  BadgePropsSchema,
-  ProgressPropsSchema
-]);
-
-// Non-recursive component schemas for Gemini (it doesn't support $ref)
-// Define explicit depth levels: Component > Children (Level 1) > Children (Level 2) > Children (Level 3)
-
-// Level 3 - deepest (leaf components, no children)
-const ComponentLevel3Schema = z.object({
-  component: ComponentTypeSchema.describe('Component type'),
-  props: z.record(z.string(), z.any()).describe('Component props')
-});
-
-// Level 2 - can contain Level 3
-const ComponentLevel2Schema = z.object({
-  component: ComponentTypeSchema.describe('Component type'),
-  props: z.record(z.string(), z.any()).describe('Component props'),
-  children: z.array(ComponentLevel3Schema).optional().describe('Child components')
-});
-
-// Level 1 - can contain Level 2
-const ComponentLevel1Schema = z.object({
-  component: ComponentTypeSchema.describe('Component type'),
-  props: z.record(z.string(), z.any()).describe('Component props'),
-  children: z.array(ComponentLevel2Schema).optional().describe('Child components')
-});
-
-// Root level - can contain Level 1
-const ComponentRootSchema = z.object({
-  component: ComponentTypeSchema.describe('Root component type (usually Container)'),
-  props: z.record(z.string(), z.any()).describe('Component props'),
-  children: z.array(ComponentLevel1Schema).optional().describe('Child components')
-});
-
-// Keep the recursive type for runtime validation (after AI generation)
-export type ComponentSchemaZod = z.infer<typeof ComponentSchemaZodType>;
-
-export const ComponentSchemaZodType: z.ZodType<{
-  component: z.infer<typeof ComponentTypeSchema>;
-  props: Record<string, any>;
-  children?: Array<{
-    component: z.infer<typeof ComponentTypeSchema>;
-    props: Record<string, any>;
-    children?: any[];
-  }>;
-}> = z.object({
-  component: ComponentTypeSchema.describe('Component type from the 12 available components'),
-  props: z.record(z.string(), z.any()).describe('Component props - must match the component type requirements'),
-  children: z.lazy(() => z.array(ComponentSchemaZodType)).optional().describe('Optional child components')
-});
-
-// Schema for AI generation response - uses non-recursive schema for Gemini compatibility
+import { ComponentSchema, COMPONENT_REGISTRY, COMPONENT_TYPES } from './components';
+
+// Data bindings like "$data.orders" - resolved at render time, so any prop may hold one
+const BindingSchema = z.string().regex(/^\$(data|item)\./);
+
+// Component nodes as a union discriminated on `component`: every variant carries the real
+// props schema of its component, so e.g. a Metric must have a label and a value. The lenient
+// variant accepts a data binding for any prop and unknown props, like validateSchema does.
+const nodeSchemaCache: Record<'strict' | 'lenient', { definitions: unknown[]; schema: z.ZodType<ComponentSchema> } | undefined> = {
+  strict: undefined,
+  lenient: undefined
+};
+
+function buildComponentNodeSchema(mode: 'strict' | 'lenient'): z.ZodType<ComponentSchema> {
+  // Rebuilt when components are registered, so custom components are accepted too
+  const definitions = COMPONENT_TYPES.map(type => COMPONENT_REGISTRY[type]);
+  const cached = nodeSchemaCache[mode];
+  if (cached && cached.definitions.length === definitions.length && cached.definitions.every((definition, i) => definition === definitions[i])) {
+    return cached.schema;
+  }
+
+  const node: z.ZodType<ComponentSchema> = z.lazy(() => union);
+  const variants = COMPONENT_TYPES.map(type => {
+    const { propsSchema, description } = COMPONENT_REGISTRY[type];
+    const props = mode === 'strict'
+      ? propsSchema
+      : z.looseObject(Object.fromEntries(
+          Object.entries(propsSchema.shape).map(([prop, field]) => [prop, z.union([field as z.ZodType, BindingSchema])])
+        ));
+
+    return z.object({
+      component: z.literal(type),
+      props,
+      children: z.array(node).optional().describe('Child components')
+    }).describe(description);
+  });
+  const union = z.discriminatedUnion('component', variants as [typeof variants[number], ...typeof variants]);
+
+  nodeSchemaCache[mode] = { definitions, schema: node };
+  return node;
+}
+
+// Strict node schema - used for structured output
+export const ComponentNodeSchema: z.ZodType<ComponentSchema> = z.lazy(() => buildComponentNodeSchema('strict'));
+
+// Lenient node schema - used to validate AI responses before repair
+export const LenientComponentNodeSchema: z.ZodType<ComponentSchema> = z.lazy(() => buildComponentNodeSchema('lenient'));
+
+// Schema for AI generation response
 export const AIGenerationResponseSchema = z.object({
   needsQuestions: z.boolean().describe('Whether user questions are needed. Set to false for simple data (1-3 metrics, 1-2 lists). Set to true for complex data (5+ entities, nested structures, ambiguous priorities)'),
   reasoning: z.string().optional().describe('Brief explanation of why questions are or are not needed'),
@@ -186,10 +60,10 @@ export const AIGenerationResponseSchema = z.object({
     options: z.array(z.string()).describe('3-4 answer options'),
     impact: z.string().describe('What this affects: layout_weight, section_priority, component_selection, visualization_style, etc')
   })).optional().describe('Questions to ask user if needsQuestions is true'),
-  schema: ComponentRootSchema.optional().describe('Generated UI schema if needsQuestions is false. Must be a single root Container component.')
+  schema: ComponentNodeSchema.optional().describe('Generated UI schema if needsQuestions is false. Must be a single root Container component.')
 });
 
-// Looser schema for validating AI response (accepts any depth of nesting)
+// Looser schema for validating AI responses: bindings and unknown props are accepted
 export const AIGenerationResponseLooseSchema = z.object({
   needsQuestions: z.boolean(),
   reasoning: z.string().optional(),
@@ -199,8 +73,54 @@ export const AIGenerationResponseLooseSchema = z.object({
     options: z.array(z.string()),
     impact: z.string()
   })).optional(),
-  schema: z.any().optional()
+  schema: LenientComponentNodeSchema.optional()
 });
 
 export type AIGenerationResponse = z.infer<typeof AIGenerationResponseSchema>;
 
+
+// Schema for AI evolution response - a list of diffs applied through evolveUI
+export const EvolutionOperationSchema = z.enum(['add', 'remove', 'update', 'move']);
+
+export const AIEvolutionResponseSchema = z.object({
+  reasoning: z.string().optional().describe('Brief explanation of the changes'),
+  diffs: z.array(z.object({
+    operation: EvolutionOperationSchema.describe('add inserts, remove deletes, update replaces, move relocates a component'),
+    path: z.string().describe('JSON-Pointer style target path like /children/1/children/0 (use /children/- to append)'),
+    from: z.string().optional().describe('Source path for move operations'),
+    value: LenientComponentNodeSchema.optional().describe('Full component for add/update operations')
+  })).describe('Ordered list of diffs - each path refers to the schema after the previous diffs')
+});
+
+export type AIEvolutionResponse = z.infer<typeof AIEvolutionResponseSchema>;
+
+// Schema for a UI state sent back by the client, e.g. to /api/evolve. Components are only
+// checked for their shape here; patches validate the components they touch.
+const StateComponentSchema = z.looseObject({
+  component: z.string(),
+  props: z.record(z.string(), z.unknown()).optional(),
+  children: z.array(z.unknown()).optional()
+});
+
+const HistoryDiffSchema = z.object({
+  operation: EvolutionOperationSchema,
+  path: z.string(),
+  from: z.string().optional(),
+  value: StateComponentSchema.optional()
+});
+
+const HistoryEntrySchema = z.object({
+  version: z.string(),
+  nextVersion: z.string(),
+  diff: HistoryDiffSchema,
+  inverse: HistoryDiffSchema,
+  timestamp: z.string()
+});
+
+export const UIStateSchema = z.looseObject({
+  version: z.string(),
+  revision: z.number().int().nonnegative(),
+  schema: StateComponentSchema,
+  history: z.array(HistoryEntrySchema),
+  future: z.array(HistoryEntrySchema).optional()
+});
@@ -0,0 +1,256 @@
+// Structured Output Schemas - Provider-aware JSON schemas for generation responses
+// Providers that accept $ref get a recursive schema derived from ComponentNodeSchema, a
+// union with one variant per component carrying that component's real props schema. Providers
+// that don't get the tree unrolled to a fixed depth. Without anyOf support, unions are
+// emulated: a flat props object shared by all components, and union-typed values as an
+// object with one "as<Type>" field per alternative (undone by unwrapEmulatedUnions).
+
+import { z } from 'zod';
+import { COMPONENT_REGISTRY, COMPONENT_TYPES } from './components';
+import { ComponentNodeSchema } from './schema';
+import type { JSONSchema, SchemaFeatures } from './llm';
+
+// What providers that don't declare their features are assumed to support
+export const RESTRICTED_SCHEMA_FEATURES: SchemaFeatures = { refs: false, unions: false };
+
+// Nesting levels (including the root) when the tree has to be unrolled
+export const DEFAULT_SCHEMA_DEPTH = 4;
+
+const COMPONENT_REF = '#/$defs/component';
+
+// Alternatives of an emulated union, keyed by JSON type
+const EMULATED_KEYS: Record<string, string> = {
+  string: 'asString',
+  number: 'asNumber',
+  boolean: 'asBoolean',
+  array: 'asArray',
+  object: 'asObject',
+};
+
+// JSON schema for generation responses (needsQuestions, reasoning, questions, schema)
+export function buildGenerationResponseSchema(
+  features: SchemaFeatures = RESTRICTED_SCHEMA_FEATURES,
+  depth: number = DEFAULT_SCHEMA_DEPTH
+): JSONSchema {
+  const response: JSONSchema = {
+    type: 'object',
+    properties: {
+      needsQuestions: {
+        type: 'boolean',
+        description: 'false for simple data, true for complex data needing clarification'
+      },
+      reasoning: {
+        type: 'string',
+        description: 'Brief explanation'
+      },
+      questions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            text: { type: 'string' },
+            options: { type: 'array', items: { type: 'string' } },
+            impact: { type: 'string' }
+          },
+          required: ['id', 'text', 'options', 'impact']
+        }
+      },
+      schema: features.refs
+        ? { $ref: COMPONENT_REF, description: 'Root component (Container)' }
+        : { ...unrolledComponentSchema(features, depth), description: 'Root component (Container)' }
+    },
+    required: ['needsQuestions']
+  };
+
+  if (features.refs) {
+    // Without unions, one flat node type whose children refer back to it
+    const children: JSONSchema = { type: 'array', items: { $ref: COMPONENT_REF } };
+    response.$defs = features.unions
+      ? componentNodeDefinitions()
+      : { component: nodeSchema(componentField(COMPONENT_TYPES), emulatedPropsSchema(), children) };
+  }
+
+  return response;
+}
+
+// ComponentNodeSchema as JSON Schema definitions, with the recursive node as "component".
+// Zod emits oneOf and const for the discriminated union; anyOf and enum are what
+// structured output backends accept.
+function componentNodeDefinitions(): Record<string, JSONSchema> {
+  const { $ref, $defs = {} } = z.toJSONSchema(ComponentNodeSchema) as JSONSchema;
+  const rootName = $ref!.replace('#/$defs/', '');
+
+  const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(normalize);
+    if (!value || typeof value !== 'object') return value;
+
+    const normalized: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (key === 'oneOf') normalized.anyOf = normalize(item);
+      else if (key === 'const') normalized.enum = [item];
+      else if (key === '$ref') normalized.$ref = item === $ref ? COMPONENT_REF : item;
+      else normalized[key] = normalize(item);
+    }
+    return normalized;
+  };
+
+  return Object.fromEntries(
+    Object.entries($defs).map(([name, definition]) => [name === rootName ? 'component' : name, normalize(definition) as JSONSchema])
+  );
+}
+
+// Node with `depth` levels of children below it (the last level has no children)
+function unrolledComponentSchema(features: SchemaFeatures, depth: number): JSONSchema {
+  const props = features.unions
+    ? { anyOf: COMPONENT_TYPES.map(propsJSONSchema), description: 'Props of the chosen component' }
+    : emulatedPropsSchema();
+  const children = depth > 1
+    ? { type: 'array', items: unrolledComponentSchema(features, depth - 1) }
+    : undefined;
+
+  return nodeSchema(componentField(COMPONENT_TYPES), props, children);
+}
+
+function nodeSchema(component: JSONSchema, props: JSONSchema, children?: JSONSchema): JSONSchema {
+  const properties: Record<string, JSONSchema> = { component, props };
+  if (children) properties.children = children;
+  return { type: 'object', properties, required: ['component', 'props'] };
+}
+
+function componentField(types: string[]): JSONSchema {
+  return { type: 'string', enum: types, description: 'Component type' };
+}
+
+// A component's props schema as JSON Schema
+function propsJSONSchema(type: string): JSONSchema {
+  const schema = z.toJSONSchema(COMPONENT_REGISTRY[type].propsSchema) as JSONSchema & { $schema?: string };
+  delete schema.$schema;
+  return schema;
+}
+
+// One flat object with every prop any component accepts. A prop that means different
+// things per component is the union of its schemas.
+function emulatedPropsSchema(): JSONSchema {
+  const alternatives: Record<string, { schemas: JSONSchema[]; descriptions: string[] }> = {};
+
+  for (const [type, definition] of Object.entries(COMPONENT_REGISTRY)) {
+    for (const [prop, field] of Object.entries(definition.propsSchema.shape)) {
+      const jsonSchema = z.toJSONSchema(field as z.ZodType) as JSONSchema;
+      alternatives[prop] ??= { schemas: [], descriptions: [] };
+      alternatives[prop].schemas.push(jsonSchema);
+      alternatives[prop].descriptions.push(`${type}: ${jsonSchema.description || prop}`);
+    }
+  }
+
+  const properties: Record<string, JSONSchema> = {};
+  for (const [prop, { schemas, descriptions }] of Object.entries(alternatives)) {
+    const emulated = emulateUnion(schemas);
+    if (emulated) properties[prop] = { ...emulated, description: descriptions.join('; ') };
+  }
+
+  return { type: 'object', description: 'Component props', properties };
+}
+
+// Combine alternatives into one schema without anyOf. Alternatives of the same type are
+// merged; scalars of different types become a string (the repair step coerces them back);
+// anything else becomes an object with one "as<Type>" field per type. Free-form objects
+// (records) can't be expressed without additionalProperties and are left out.
+function emulateUnion(schemas: JSONSchema[]): JSONSchema | null {
+  const byType = new Map<string, JSONSchema[]>();
+
+  for (const schema of schemas.flatMap(flattenUnion)) {
+    const restricted = restrictSchema(schema);
+    if (!restricted) continue;
+    const type = restricted.type === 'integer' ? 'number' : restricted.type!;
+    byType.set(type, [...(byType.get(type) || []), { ...restricted, type }]);
+  }
+
+  const merged = Array.from(byType.values()).map(mergeSameType).filter((schema): schema is JSONSchema => !!schema);
+  if (merged.length === 0) return null;
+  if (merged.length === 1) return merged[0];
+
+  if (merged.every(schema => schema.type !== 'array' && schema.type !== 'object')) {
+    return { type: 'string', description: 'Numbers and booleans are also accepted as strings' };
+  }
+
+  return {
+    type: 'object',
+    description: 'Set exactly one of these fields',
+    properties: Object.fromEntries(merged.map(schema => [EMULATED_KEYS[schema.type!], schema]))
+  };
+}
+
+function flattenUnion(schema: JSONSchema): JSONSchema[] {
+  return schema.anyOf ? schema.anyOf.flatMap(flattenUnion) : [schema];
+}
+
+// Reduce a schema to what restricted providers accept, or null if it can't be expressed
+function restrictSchema(schema: JSONSchema): JSONSchema | null {
+  if (schema.anyOf) return emulateUnion(schema.anyOf);
+
+  switch (schema.type) {
+    case 'object': {
+      if (!schema.properties || Object.keys(schema.properties).length === 0) return null;
+      const properties: Record<string, JSONSchema> = {};
+      for (const [key, value] of Object.entries(schema.properties)) {
+        const restricted = restrictSchema(value);
+        if (restricted) properties[key] = restricted;
+      }
+      const required = (schema.required || []).filter(key => key in properties);
+      return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+    }
+    case 'array': {
+      const items = schema.items ? restrictSchema(schema.items) : null;
+      return items ? { type: 'array', items } : null;
+    }
+    case 'string':
+    case 'number':
+    case 'integer':
+    case 'boolean':
+      return schema.enum ? { type: schema.type, enum: schema.enum } : { type: schema.type };
+    default:
+      return null;
+  }
+}
+
+function mergeSameType(schemas: JSONSchema[]): JSONSchema | null {
+  const [first] = schemas;
+
+  switch (first.type) {
+    case 'string':
+      return schemas.every(schema => schema.enum)
+        ? { type: 'string', enum: Array.from(new Set(schemas.flatMap(schema => schema.enum!))) }
+        : { type: 'string' };
+    case 'array': {
+      const items = emulateUnion(schemas.map(schema => schema.items!));
+      return items ? { type: 'array', items } : null;
+    }
+    case 'object': {
+      const keys = Array.from(new Set(schemas.flatMap(schema => Object.keys(schema.properties!))));
+      const properties: Record<string, JSONSchema> = {};
+      for (const key of keys) {
+        const property = emulateUnion(schemas.flatMap(schema => schema.properties![key] ? [schema.properties![key]] : []));
+        if (property) properties[key] = property;
+      }
+      const required = keys.filter(key => schemas.every(schema => schema.required?.includes(key)));
+      return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+    }
+    default:
+      return { type: first.type };
+  }
+}
+
+// Replace every emulated union ({ "asArray": [...] }) in a response with the value it holds
+export function unwrapEmulatedUnions(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(unwrapEmulatedUnions);
+  if (!value || typeof value !== 'object') return value;
+
+  const entries = Object.entries(value).map(([key, item]) => [key, unwrapEmulatedUnions(item)] as const);
+  const emulatedKeys = Object.values(EMULATED_KEYS);
+  if (entries.length > 0 && entries.every(([key]) => emulatedKeys.includes(key))) {
+    return entries.find(([, item]) => item !== null && item !== undefined)?.[1];
+  }
+
+  return Object.fromEntries(entries);
+}
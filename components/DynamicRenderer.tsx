@@ -1,22 +1,18 @@
 'use client'
 
 import * as React from "react"
-import { ComponentSchema } from "@/common/components"
+import type { ComponentSchema } from "@/common/components"
+import { COMPONENT_MAP } from "./registry-renderers"
+import "@/common/custom-components"
 import { resolveProps, resolveValue } from "@/lib/dataBinding"
 import { cn } from "@/lib/utils"
 
-// Import all UI components
-import { Container } from "./ui/container"
+// UI components used by the special-cased renderers below
 import { Card, CardHeader, CardTitle, CardContent } from "./ui/card"
-import { Section } from "./ui/section"
-import { Metric } from "./ui/metric"
 import { Table } from "./ui/table"
 import { List } from "./ui/list"
 import { Chart } from "./ui/chart"
-import { Button } from "./ui/button"
-import { Filter } from "./ui/filter"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs"
-import { Badge } from "./ui/badge"
 import { Progress } from "./ui/progress"
 
 interface DynamicRendererProps {
@@ -25,22 +21,6 @@ interface DynamicRendererProps {
   item?: Record<string, any>
 }
 
-// Map component names to actual React components
-const COMPONENT_MAP: Record<string, React.ComponentType<any>> = {
-  Container,
-  Card,
-  Section,
-  Metric,
-  Table,
-  List,
-  Chart,
-  Button,
-  Filter,
-  Tabs,
-  Badge,
-  Progress,
-}
-
 export function DynamicRenderer({ schema, data, item }: DynamicRendererProps) {
   // Error boundary for invalid schemas
   if (!schema || !schema.component) {
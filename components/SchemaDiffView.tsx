@@ -0,0 +1,143 @@
+'use client'
+
+import * as React from "react"
+import { ComponentSchema } from "@/common/components"
+import { compareSchemas, summarizeDiff, SchemaChangeStatus, SchemaNodeDiff } from "@/common/diff"
+import { Badge } from "./ui/badge"
+import { cn } from "@/lib/utils"
+
+interface SchemaDiffViewProps {
+  before: ComponentSchema
+  after: ComponentSchema
+  beforeLabel?: string
+  afterLabel?: string
+}
+
+interface DiffRow {
+  status: SchemaChangeStatus
+  depth: number
+  before?: ComponentSchema
+  after?: ComponentSchema
+  changedProps: string[]
+}
+
+const STATUS_STYLES: Record<SchemaChangeStatus, { before: string; after: string }> = {
+  added: { before: '', after: 'bg-green-500/15 text-green-300' },
+  removed: { before: 'bg-red-500/15 text-red-300', after: '' },
+  changed: { before: 'bg-amber-500/10 text-amber-200', after: 'bg-amber-500/10 text-amber-200' },
+  unchanged: { before: 'text-white/50', after: 'text-white/50' },
+}
+
+// Flatten the aligned tree into side-by-side rows
+function flattenDiff(node: SchemaNodeDiff, depth: number = 0): DiffRow[] {
+  const rows: DiffRow[] = [{
+    status: node.status,
+    depth,
+    before: node.before,
+    after: node.after,
+    changedProps: node.changedProps,
+  }]
+
+  if (node.children.length > 0) {
+    for (const child of node.children) {
+      rows.push(...flattenDiff(child, depth + 1))
+    }
+  } else if (node.status === 'added' || node.status === 'removed') {
+    // Whole subtree was added/removed - show its descendants with the same status
+    const schema = node.after || node.before
+    for (const child of schema?.children || []) {
+      rows.push(...flattenDiff({
+        status: node.status,
+        before: node.status === 'removed' ? child : undefined,
+        after: node.status === 'added' ? child : undefined,
+        changedProps: [],
+        children: [],
+      }, depth + 1))
+    }
+  }
+
+  return rows
+}
+
+function nodeLabel(schema: ComponentSchema): string {
+  const label = schema.props?.title || schema.props?.label
+  return label ? `${schema.component} "${label}"` : schema.component
+}
+
+function formatPropValue(value: unknown): string {
+  if (value === undefined) return '—'
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > 40 ? `${text.substring(0, 40)}…` : text
+}
+
+function DiffCell({
+  schema,
+  depth,
+  changedProps,
+  className,
+}: {
+  schema?: ComponentSchema
+  depth: number
+  changedProps: string[]
+  className: string
+}) {
+  return (
+    <div
+      className={cn('min-h-[28px] rounded px-2 py-1 font-mono text-xs', schema && className)}
+      style={{ paddingLeft: `${depth * 12 + 8}px` }}
+    >
+      {schema && (
+        <>
+          <div>{nodeLabel(schema)}</div>
+          {changedProps.map(prop => (
+            <div key={prop} className="text-[11px] opacity-80">
+              {prop}: {formatPropValue(schema.props?.[prop])}
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
+
+// Side-by-side view of two schema versions with added/removed/changed highlighting
+export function SchemaDiffView({ before, after, beforeLabel = 'Before', afterLabel = 'After' }: SchemaDiffViewProps) {
+  const tree = React.useMemo(() => compareSchemas(before, after), [before, after])
+  const rows = React.useMemo(() => flattenDiff(tree), [tree])
+  const summary = summarizeDiff(tree)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="success">{summary.added} added</Badge>
+        <Badge variant="danger">{summary.removed} removed</Badge>
+        <Badge variant="secondary">{summary.changed} changed</Badge>
+        <Badge variant="outline">{summary.unchanged} unchanged</Badge>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-2 text-xs font-medium text-white/60">
+        <div className="px-2">{beforeLabel}</div>
+        <div className="px-2">{afterLabel}</div>
+      </div>
+
+      <div className="max-h-[400px] space-y-1 overflow-y-auto">
+        {rows.map((row, index) => (
+          <div key={index} className="grid grid-cols-2 gap-x-2">
+            <DiffCell
+              schema={row.before}
+              depth={row.depth}
+              changedProps={row.changedProps}
+              className={STATUS_STYLES[row.status].before}
+            />
+            <DiffCell
+              schema={row.after}
+              depth={row.depth}
+              changedProps={row.changedProps}
+              className={STATUS_STYLES[row.status].after}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+'use client'
+
+// Renderer map - the React component for each component type.
+// Kept apart from the registry in common/components.ts (schemas, descriptions, specs),
+// so server routes that validate and generate schemas never import the built-in UI code.
+// Custom components bring their renderer to registerComponent.
+
+import * as React from "react"
+import { COMPONENT_RENDERERS, type BuiltInComponentType, type ComponentRenderer } from "@/common/components"
+import { Container } from "./ui/container"
+import { Card } from "./ui/card"
+import { Section } from "./ui/section"
+import { Metric } from "./ui/metric"
+import { Table } from "./ui/table"
+import { List } from "./ui/list"
+import { Chart } from "./ui/chart"
+import { Button } from "./ui/button"
+import { Filter } from "./ui/filter"
+import { Tabs } from "./ui/tabs"
+import { Badge } from "./ui/badge"
+import { Progress } from "./ui/progress"
+
+// Schemas are validated against each component's propsSchema before they are rendered,
+// so every renderer can be called with plain props
+function asRenderer<P>(component: React.ComponentType<P>): ComponentRenderer {
+  return component as unknown as ComponentRenderer
+}
+
+const BUILT_IN_RENDERERS: Record<BuiltInComponentType, ComponentRenderer> = {
+  Container: asRenderer(Container),
+  Card: asRenderer(Card),
+  Section: asRenderer(Section),
+  Metric: asRenderer(Metric),
+  Table: asRenderer(Table),
+  List: asRenderer(List),
+  Chart: asRenderer(Chart),
+  Button: asRenderer(Button),
+  Filter: asRenderer(Filter),
+  Tabs: asRenderer(Tabs),
+  Badge: asRenderer(Badge),
+  Progress: asRenderer(Progress),
+}
+
+// Built-ins plus every renderer passed to registerComponent
+export const COMPONENT_MAP = Object.assign(COMPONENT_RENDERERS, BUILT_IN_RENDERERS)